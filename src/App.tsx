@@ -1,21 +1,135 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef, type CSSProperties } from "react";
 import { Canvas } from "@react-three/fiber";
-import { Sphere } from "@react-three/drei";
+import { Html, Line, Sphere } from "@react-three/drei";
 import { EffectComposer, Bloom } from "@react-three/postprocessing";
 import "./App.css";
 import PitchControls from "./components/PitchControls";
 import Baseball from "./components/Baseball";
 import usePitchTrajectory from "./hooks/usePitchTrajectory";
+import {
+  SolverSuggestion,
+  TARGET_MISS_WARNING_M,
+  Trajectory,
+  hasFixableWarnings,
+  solvePitch,
+  suggestFixes,
+  targetFromFrontOfPlate,
+} from "./utils/trajectory";
 import TargetPad from "./components/TargetPad";
 import CameraInfoLogger from "./components/CameraInfoLogger";
+import CameraToolbar from "./components/CameraToolbar";
 import HomePlate from "./components/HomePlate";
 import StrikeZone from "./components/StrikeZone";
+import ReleaseControls from "./components/ReleaseControls";
+import EnvironmentPanel from "./components/EnvironmentPanel";
+import StatcastPanel from "./components/StatcastPanel";
+import ImportPanel from "./components/ImportPanel";
+import LibraryPanel from "./components/LibraryPanel";
+import HistoryPanel from "./components/HistoryPanel";
+import PitchTrails from "./components/PitchTrails";
+import TunnelPanel from "./components/TunnelPanel";
+import TunnelMarkers from "./components/TunnelMarkers";
+import CommandPanel from "./components/CommandPanel";
+import CommandCloudView from "./components/CommandCloudView";
+import HeatMapPanel from "./components/HeatMapPanel";
+import MovementChart from "./components/MovementChart";
+import MetricsPanel from "./components/MetricsPanel";
+import PlaybackBar from "./components/PlaybackBar";
+import DisplayPanel from "./components/DisplayPanel";
+import BreakOverlay from "./components/BreakOverlay";
+import CallPanel from "./components/CallPanel";
+import BatterPanel from "./components/BatterPanel";
+import BatterSilhouette from "./components/BatterSilhouette";
+import FieldEnvironment from "./components/FieldEnvironment";
+import PitcherFigure from "./components/PitcherFigure";
+import usePitcherProfiles from "./hooks/usePitcherProfiles";
+import useCameraPresets from "./hooks/useCameraPresets";
+import useSceneUrl from "./hooks/useSceneUrl";
+import useSessionLog from "./hooks/useSessionLog";
+import SessionLogPanel from "./components/SessionLogPanel";
 import {
   STRIKE_ZONE_WIDTH,
   STRIKE_ZONE_BOTTOM,
   STRIKE_ZONE_TOP,
   PLATE_TOTAL_DEPTH,
+  PLATE_FRONT_Z,
+  FEET_TO_METERS,
+  INCHES_TO_METERS,
 } from "./constants";
+import {
+  PitchInputMode,
+  SpinSettings,
+  breakToTilt,
+  spinEfficiency,
+} from "./utils/spin";
+import {
+  Handedness,
+  ReleaseSettings,
+  DEFAULT_RELEASE_HEIGHT_FT,
+  DEFAULT_EXTENSION_FT,
+  defaultReleaseSide,
+  releasePointFromSettings,
+} from "./utils/release";
+import { EnvironmentSettings, REFERENCE_ENVIRONMENT } from "./utils/environment";
+import { StatcastPitch } from "./utils/statcast";
+import { ImportedPitch } from "./utils/pitchImport";
+import {
+  DEFAULT_HEAT_MAP,
+  HeatMapSettings,
+  PitchLocation,
+  locationHeatMap,
+} from "./utils/heatMap";
+import {
+  PitchSelection,
+  PitcherProfile,
+  PitchTypeCode,
+  createId,
+  normalizePitchType,
+  pitchTypeColor,
+} from "./utils/pitchLibrary";
+import {
+  ThrownPitch,
+  DEFAULT_MAX_HISTORY,
+  samplePath,
+} from "./utils/pitchHistory";
+import {
+  DEFAULT_SECOND_PITCH,
+  SecondPitch,
+  TunnelPitch,
+  TunnelSource,
+  DEFAULT_TUNNEL_THRESHOLD_IN,
+  analyzeTunnel,
+} from "./utils/tunnel";
+import { pitchMetrics } from "./utils/metrics";
+import {
+  CHASE_OUTER_SCALE,
+  CallTally,
+  PitchCall,
+  ZoneBounds,
+  callPitch,
+  positionAtZ,
+  scaledZoneRect,
+} from "./utils/strikeZone";
+import { BatterSettings, DEFAULT_BATTER, batterZone } from "./utils/batter";
+import { DisplaySettings, DEFAULT_DISPLAY } from "./utils/display";
+import { createPlaybackClock } from "./utils/playbackClock";
+import { PitchSetup, SceneState, decodeSceneState } from "./utils/sceneUrl";
+import { SessionPitch, sampleTrajectory } from "./utils/sessionLog";
+import {
+  CommandDraw,
+  CommandSettings,
+  DEFAULT_COMMAND,
+  DEFAULT_SIMULATION_COUNT,
+  drawCommandSamples,
+  simulateCommand,
+} from "./utils/command";
+import {
+  CameraPreset,
+  CameraView,
+  CATCHER_PRESET_ID,
+  builtInCameraPresets,
+  createCameraPreset,
+} from "./utils/cameraPresets";
 
 // Camera Settings - Realistic Catcher POV
 const cameraPosition: [number, number, number] = [0, 0.75, 1.35]; // Updated Y and Z for better perspective
@@ -23,87 +137,960 @@ const fov = 75; // Keep FOV as is for now, adjust if needed
 // Initial target point for OrbitControls (center of strike zone vertically)
 const initialCameraTarget: [number, number, number] = [0, 0.6, 0];
 
+// Aim the catcher view halfway (by angle) between the zone and the release point,
+// so both ends of the flight stay framed wherever the pitcher lets go of the ball
+const getFramedCameraTarget = (releasePoint: {
+  x: number;
+  y: number;
+  z: number;
+}): [number, number, number] => {
+  const toDirection = (p: [number, number, number]) => {
+    const d = p.map((v, i) => v - cameraPosition[i]);
+    const len = Math.hypot(d[0], d[1], d[2]);
+    return { dir: d.map((v) => v / len), len };
+  };
+  const zone = toDirection(initialCameraTarget);
+  const release = toDirection([releasePoint.x, releasePoint.y, releasePoint.z]);
+  const bisector = zone.dir.map((v, i) => v + release.dir[i]);
+  const bisectorLen = Math.hypot(bisector[0], bisector[1], bisector[2]);
+  return bisector.map(
+    (v, i) => cameraPosition[i] + (v / bisectorLen) * zone.len
+  ) as [number, number, number];
+};
+
+const FRAME_STEP = 1 / 240; // seconds; one frame of high-speed video
+
+// Below this spin efficiency the break-mode spin readout stops dividing by it
+const MIN_DISPLAY_EFFICIENCY = 0.05;
+
+// What the app opens to without a scene in the link
+const DEFAULT_SCENE: SceneState = {
+  pitchType: "FF",
+  velocity: 95,
+  ivb: 15, // Fastball
+  hb: -8, // Fastball, arm side for a RHP
+  inputMode: "break",
+  spinRate: 2300, // rpm
+  spinTilt: breakToTilt(15, -8), // Matches default break
+  gyroAngle: 0, // 100% efficiency
+  handedness: "R",
+  release: {
+    heightFt: DEFAULT_RELEASE_HEIGHT_FT,
+    sideFt: defaultReleaseSide("R"),
+    extensionFt: DEFAULT_EXTENSION_FT,
+  },
+  batter: DEFAULT_BATTER,
+  environment: REFERENCE_ENVIRONMENT,
+  statcastPitch: null,
+  target: { x: 0, y: (STRIKE_ZONE_TOP + STRIKE_ZONE_BOTTOM) / 2 }, // Center of the zone
+  display: DEFAULT_DISPLAY,
+  camera: { presetId: CATCHER_PRESET_ID, view: null },
+};
+
+// Target sphere when the solved pitch can't reach it
+const TARGET_MISS_COLOR = "#ffaa00";
+const TARGET_MISS_LABEL_STYLE: CSSProperties = {
+  color: "#ffaa00",
+  fontSize: "12px",
+  whiteSpace: "nowrap",
+  background: "rgba(0,0,0,0.7)",
+  padding: "1px 4px",
+  borderRadius: "3px",
+  pointerEvents: "none",
+};
+
 function App() {
+  // Scene from a shared link, if the app was opened with one
+  const [initialScene] = useState(
+    () => decodeSceneState(window.location.hash, DEFAULT_SCENE) ?? DEFAULT_SCENE
+  );
+
   // Pitch Control State
-  const [velocity, setVelocity] = useState<number>(95); // Default velocity
-  const [ivb, setIvb] = useState<number>(15); // Default IVB (Fastball)
-  const [hb, setHb] = useState<number>(8); // Default HB (Fastball)
+  const [pitchType, setPitchType] = useState<PitchTypeCode | null>(initialScene.pitchType);
+  const [velocity, setVelocity] = useState<number>(initialScene.velocity);
+  const [ivb, setIvb] = useState<number>(initialScene.ivb);
+  const [hb, setHb] = useState<number>(initialScene.hb);
+
+  // Spin Input State (used instead of IVB/HB in spin mode)
+  const [inputMode, setInputMode] = useState<PitchInputMode>(initialScene.inputMode);
+  const [spinRate, setSpinRate] = useState<number>(initialScene.spinRate);
+  const [spinTilt, setSpinTilt] = useState<number>(initialScene.spinTilt);
+  const [gyroAngle, setGyroAngle] = useState<number>(initialScene.gyroAngle);
+
+  // Pitcher Release State
+  const [handedness, setHandedness] = useState<Handedness>(initialScene.handedness);
+  const [release, setRelease] = useState<ReleaseSettings>(initialScene.release);
+
+  // Batter the zone is drawn and called for
+  const [batter, setBatter] = useState<BatterSettings>(initialScene.batter);
+
+  // Weather / Ballpark State
+  const [environment, setEnvironment] = useState<EnvironmentSettings>(
+    initialScene.environment
+  );
+
+  // Statcast pitch being replayed instead of the controls (null = use controls)
+  const [statcastPitch, setStatcastPitch] = useState<StatcastPitch | null>(
+    initialScene.statcastPitch
+  );
+
+  // Pitches loaded from a CSV export
+  const [importedPitches, setImportedPitches] = useState<ImportedPitch[]>([]);
+
+  // Saved pitcher profiles (localStorage) and the one being browsed
+  const { profiles, saveProfile, deleteProfile, importProfiles } =
+    usePitcherProfiles();
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(
+    null
+  );
+
+  // Recently thrown pitches, drawn as trails and ghosts (oldest first)
+  const [pitchHistory, setPitchHistory] = useState<ThrownPitch[]>([]);
+  const [maxHistory, setMaxHistory] = useState<number>(DEFAULT_MAX_HISTORY);
+  const nextPitchId = useRef<number>(0);
+
+  // The pitch as it was thrown: the ball flies it and it is recorded when it
+  // lands, even if a control moves mid-flight. A throw flags it and it is taken
+  // once the thrown setup renders.
+  const thrownPitchRef = useRef<ThrownPitch | null>(null);
+  const pendingThrowRef = useRef<{ log: boolean } | null>(null);
+  // Whether the last throw has reached the plate and been recorded
+  const isThrowCompleteRef = useRef<boolean>(true);
+  const [, setThrowCount] = useState<number>(0);
+
+  // Every throw this session, kept across reloads (IndexedDB)
+  const { pitches: sessionLog, addPitch: logPitch, clearLog: clearSessionLog } = useSessionLog();
+
+  // Ball/strike call for the last pitch and the running tally
+  const [lastCall, setLastCall] = useState<PitchCall | null>(null);
+  const [callTally, setCallTally] = useState<CallTally>({ balls: 0, strikes: 0 });
+
+  // Tunneling comparison between two pitches (either control set or history)
+  const [showTunnel, setShowTunnel] = useState<boolean>(false);
+  const [tunnelSourceA, setTunnelSourceA] = useState<TunnelSource>("current");
+  const [tunnelSourceB, setTunnelSourceB] = useState<TunnelSource>("second");
+  const [secondPitch, setSecondPitch] = useState<SecondPitch>(DEFAULT_SECOND_PITCH);
+  const [tunnelThreshold, setTunnelThreshold] = useState<number>(
+    DEFAULT_TUNNEL_THRESHOLD_IN
+  );
+
+  // Command simulation: the pitcher's spread and the random draws behind the
+  // current cloud, which is rebuilt as the target or pitch changes
+  const [command, setCommand] = useState<CommandSettings>(DEFAULT_COMMAND);
+  const [simulationCount, setSimulationCount] = useState<number>(DEFAULT_SIMULATION_COUNT);
+  const [commandDraws, setCommandDraws] = useState<CommandDraw[]>([]);
+
+  // Location heat map over the zone
+  const [heatMapSettings, setHeatMapSettings] = useState<HeatMapSettings>(DEFAULT_HEAT_MAP);
+
+  // Scene overlays
+  const [display, setDisplay] = useState<DisplaySettings>(initialScene.display);
 
   // Animation State
   const [isAnimating, setIsAnimating] = useState<boolean>(false);
-  const [animationTime, setAnimationTime] = useState<number>(0);
+  const [playbackClock] = useState(createPlaybackClock);
+  const [playbackSpeed, setPlaybackSpeed] = useState<number>(1);
 
   // Target State (in meters)
-  const [targetX, setTargetX] = useState<number>(0); // Horizontal center
-  const [targetY, setTargetY] = useState<number>(
-    (STRIKE_ZONE_TOP + STRIKE_ZONE_BOTTOM) / 2
-  ); // Vertical center of strike zone
+  const [targetX, setTargetX] = useState<number>(initialScene.target.x);
+  const [targetY, setTargetY] = useState<number>(initialScene.target.y);
   
   // State to track if target is being dragged
   const [isDraggingTarget, setIsDraggingTarget] = useState<boolean>(false);
 
-  // State to hold camera info string
-  const [cameraInfo, setCameraInfo] = useState<string>(
-    "Loading camera info..."
-  );
+  // Camera info readout; written directly since the controls report every frame while moving
+  const cameraInfoRef = useRef<HTMLParagraphElement>(null);
+
+  // Camera presets: the user's saved views and the last preset picked
+  const {
+    presets: userCameraPresets,
+    savePreset: saveCameraPreset,
+    deletePreset: deleteCameraPreset,
+  } = useCameraPresets();
+  const [cameraRequest, setCameraRequest] = useState<{
+    presetId: string;
+    view: CameraView | null; // null for the catcher view, which follows the release point
+  }>(initialScene.camera);
+  // Latest camera view reported by the controls, for saving presets
+  const cameraViewRef = useRef<CameraView | null>(null);
 
   // No refs needed for regular Bloom
 
-  // Calculate the Z coordinate of the FRONT point of the home plate (used as target Z)
-  const targetPlateBackZ = PLATE_TOTAL_DEPTH; // Correct calculation for front of plate
+  // Z of the back point of home plate, where pitches are aimed (the target plane)
+  const targetPlateBackZ = PLATE_TOTAL_DEPTH;
 
-  // Calculate Trajectory using the hook - Now includes target coordinates AND target Z (front of plate)
-  const { getPositionAtTime, flightTime, releasePoint } = usePitchTrajectory(
+  // Rulebook zone volume for this batter, used for drawing and calling pitches
+  const zoneBounds = useMemo<ZoneBounds>(() => {
+    const { top, bottom } = batterZone(batter);
+    return { width: STRIKE_ZONE_WIDTH, bottom, top, depth: PLATE_TOTAL_DEPTH };
+  }, [batter]);
+
+  // Spin settings only drive the trajectory in spin mode
+  const spinSettings = useMemo<SpinSettings | null>(
+    () =>
+      inputMode === "spin"
+        ? { rpm: spinRate, tilt: spinTilt, gyro: gyroAngle }
+        : null,
+    [inputMode, spinRate, spinTilt, gyroAngle]
+  );
+
+  // Calculate Trajectory using the hook, aimed at the target on the back-point plane
+  const trajectory = usePitchTrajectory(
     velocity,
     ivb,
     hb,
     targetX, // Pass target X
     targetY, // Pass target Y
-    targetPlateBackZ // Pass target Z (front of plate)
-    // NOTE: usePitchTrajectory hook needs modification to accept and use targetZ
+    targetPlateBackZ, // Pass target Z (back point of the plate)
+    spinSettings,
+    release,
+    environment,
+    statcastPitch
+  );
+  const {
+    getPositionAtTime,
+    flightTime,
+    releasePoint,
+    initialVelocity,
+    frontOfPlateVelocity,
+    plateVelocity,
+    spin,
+    inducedBreak,
+    noSpinTrajectory,
+    activeSpinRate,
+    spinRate: solvedSpinRate,
+    plateSpeedMPH,
+    airDensity,
+    targetMiss,
+    warnings: solverWarnings,
+  } = trajectory;
+
+  // Fixes for a failed solve, searched for on request since the velocity search
+  // re-solves the pitch many times. They only apply to the trajectory they were found for
+  const [solverFixes, setSolverFixes] = useState<{
+    trajectory: Trajectory;
+    suggestion: SolverSuggestion | null;
+  } | null>(null);
+  const solverSuggestion = solverFixes?.trajectory === trajectory ? solverFixes.suggestion : null;
+  const handleFindFixes = useCallback(() => {
+    const suggestion = suggestFixes(
+      {
+        velocityMPH: velocity,
+        ivbInches: ivb,
+        hbInches: hb,
+        target: { x: targetX, y: targetY, z: targetPlateBackZ },
+        spinSettings,
+        release,
+        environment,
+        statcastPitch,
+      },
+      trajectory
+    );
+    setSolverFixes({ trajectory, suggestion });
+  }, [
+    trajectory,
+    velocity,
+    ivb,
+    hb,
+    targetX,
+    targetY,
+    targetPlateBackZ,
+    spinSettings,
+    release,
+    environment,
+    statcastPitch,
+  ]);
+  // A replayed Statcast fit isn't aimed, so only a solved pitch can miss
+  const missesTarget = !statcastPitch && targetMiss > TARGET_MISS_WARNING_M;
+  const missedPlate = getPositionAtTime(flightTime);
+
+  // The same pitch at sea level, for the environment comparison
+  const seaLevelTrajectory = usePitchTrajectory(
+    velocity,
+    ivb,
+    hb,
+    targetX,
+    targetY,
+    targetPlateBackZ,
+    spinSettings,
+    release,
+    REFERENCE_ENVIRONMENT,
+    statcastPitch
+  );
+
+  // The second control set for tunneling: its own pitch, same release and air
+  const secondTrajectory = usePitchTrajectory(
+    secondPitch.velocity,
+    secondPitch.ivb,
+    secondPitch.hb,
+    secondPitch.target.x,
+    secondPitch.target.y,
+    targetPlateBackZ,
+    null,
+    release,
+    environment,
+    null
+  );
+
+  // Angles, speeds and timing for the metrics readout
+  const metrics = useMemo(
+    () =>
+      pitchMetrics({
+        flightTime,
+        releasePoint,
+        initialVelocity,
+        frontOfPlateVelocity,
+        plateSpeedMPH,
+      }),
+    [flightTime, releasePoint, initialVelocity, frontOfPlateVelocity, plateSpeedMPH]
+  );
+
+  const commandCloud = useMemo(
+    () =>
+      simulateCommand(
+        commandDraws,
+        command,
+        {
+          target: { x: targetX, y: targetY },
+          velocityMPH: metrics.releaseSpeedMPH,
+          flightTime,
+          inducedBreak,
+          plateVelocity,
+        },
+        zoneBounds
+      ),
+    [
+      commandDraws,
+      command,
+      targetX,
+      targetY,
+      metrics,
+      flightTime,
+      inducedBreak,
+      plateVelocity,
+      zoneBounds,
+    ]
+  );
+
+  // Plate locations for the heat map, filtered by pitch type
+  const heatMapLocations = useMemo((): PitchLocation[] => {
+    let locations: PitchLocation[] = [];
+    if (heatMapSettings.source === "history") {
+      // At the front of the plate, where imported locations are measured
+      locations = pitchHistory.map((pitch) => {
+        const plate = positionAtZ(pitch.getPositionAtTime, pitch.flightTime, PLATE_FRONT_Z);
+        return { x: plate.x, y: plate.y, pitchType: pitch.pitchType };
+      });
+    } else if (heatMapSettings.source === "imported") {
+      locations = importedPitches.map((pitch) => ({
+        x: pitch.plateX * FEET_TO_METERS,
+        y: pitch.plateZ * FEET_TO_METERS,
+        pitchType: normalizePitchType(pitch.pitchType),
+      }));
+    }
+    return heatMapSettings.pitchType === "all"
+      ? locations
+      : locations.filter((location) => location.pitchType === heatMapSettings.pitchType);
+  }, [heatMapSettings, pitchHistory, importedPitches]);
+
+  const heatMap = useMemo(
+    () => locationHeatMap(heatMapLocations, scaledZoneRect(zoneBounds, CHASE_OUTER_SCALE)),
+    [heatMapLocations, zoneBounds]
+  );
+
+  // Keep the catcher view framed on the current release point
+  const cameraTarget = useMemo(
+    () => getFramedCameraTarget(releasePointFromSettings(release)),
+    [release]
+  );
+
+  // Resolve the two tunnel slots; a history pitch may have been cleared since
+  const currentFlight = useMemo<TunnelPitch>(
+    () => ({ getPositionAtTime, flightTime }),
+    [getPositionAtTime, flightTime]
+  );
+  const resolveTunnelSource = useCallback(
+    (source: TunnelSource) => {
+      if (source === "current") {
+        return { pitch: currentFlight, color: pitchTypeColor(pitchType) };
+      }
+      if (source === "second") {
+        return { pitch: secondTrajectory, color: pitchTypeColor(secondPitch.pitchType) };
+      }
+      const thrown = pitchHistory.find((p) => p.id === source);
+      return thrown
+        ? { pitch: thrown, color: pitchTypeColor(thrown.pitchType) }
+        : null;
+    },
+    [currentFlight, pitchType, pitchHistory, secondTrajectory, secondPitch]
+  );
+  const tunnelA = useMemo(
+    () => resolveTunnelSource(tunnelSourceA),
+    [resolveTunnelSource, tunnelSourceA]
+  );
+  const tunnelB = useMemo(
+    () => resolveTunnelSource(tunnelSourceB),
+    [resolveTunnelSource, tunnelSourceB]
+  );
+  const tunnelAnalysis = useMemo(
+    () =>
+      showTunnel && tunnelA && tunnelB
+        ? analyzeTunnel(
+            tunnelA.pitch,
+            tunnelB.pitch,
+            tunnelThreshold * INCHES_TO_METERS
+          )
+        : null,
+    [showTunnel, tunnelA, tunnelB, tunnelThreshold]
+  );
+
+  const catcherView = useMemo<CameraView>(
+    () => ({ position: cameraPosition, target: cameraTarget, fov }),
+    [cameraTarget]
+  );
+  const cameraPresets = useMemo(
+    () => [...builtInCameraPresets(catcherView), ...userCameraPresets],
+    [catcherView, userCameraPresets]
+  );
+  // A new object on every pick (so re-picking a preset returns to it), and on
+  // release changes while in the catcher view
+  const requestedCameraView = useMemo(
+    () => cameraRequest.view ?? { ...catcherView },
+    [cameraRequest, catcherView]
+  );
+
+  const handleCameraChange = useCallback((info: string, view: CameraView) => {
+    if (cameraInfoRef.current) cameraInfoRef.current.textContent = info;
+    cameraViewRef.current = view;
+  }, []);
+
+  const handleSelectCameraPreset = useCallback((preset: CameraPreset) => {
+    setCameraRequest({
+      presetId: preset.id,
+      view:
+        preset.id === CATCHER_PRESET_ID
+          ? null
+          : { position: preset.position, target: preset.target, fov: preset.fov },
+    });
+  }, []);
+
+  const handleSaveCameraPreset = useCallback(
+    (name: string) => {
+      if (cameraViewRef.current) {
+        saveCameraPreset(createCameraPreset(name, cameraViewRef.current));
+      }
+    },
+    [saveCameraPreset]
+  );
+
+  // The pitch as set up now, for logging and sharing
+  const pitchSetup = useMemo<PitchSetup>(
+    () => ({
+      pitchType,
+      velocity,
+      ivb,
+      hb,
+      inputMode,
+      spinRate,
+      spinTilt,
+      gyroAngle,
+      handedness,
+      release,
+      batter,
+      environment,
+      statcastPitch,
+      target: { x: targetX, y: targetY },
+    }),
+    [pitchType, velocity, ivb, hb, inputMode, spinRate, spinTilt, gyroAngle, handedness, release, batter, environment, statcastPitch, targetX, targetY]
+  );
+
+  // Everything a shared link restores; the address bar follows it
+  const scene = useMemo<SceneState>(
+    () => ({ ...pitchSetup, display, camera: cameraRequest }),
+    [pitchSetup, display, cameraRequest]
+  );
+  const { linkTo } = useSceneUrl(scene);
+
+  // Copied links carry the camera exactly as it is now
+  const handleCopyLink = useCallback(async () => {
+    const link = linkTo({
+      presetId: cameraRequest.presetId,
+      view: cameraViewRef.current ?? cameraRequest.view,
+    });
+    try {
+      await navigator.clipboard.writeText(link);
+      return true;
+    } catch {
+      // Clipboard access can be denied (e.g. over plain http); let the user copy it
+      window.prompt("Copy this link:", link);
+      return false;
+    }
+  }, [linkTo, cameraRequest]);
+
+  // Values shown for the inputs that are not being edited
+  const displayIvb = inputMode === "spin" ? inducedBreak.ivb : ivb;
+  const displayHb = inputMode === "spin" ? inducedBreak.hb : hb;
+  // Near pure gyro spin the total needed for the break runs off to infinity, so
+  // fall back to the spin the solve actually used
+  const efficiency = spinEfficiency(gyroAngle);
+  const displaySpinRate =
+    inputMode === "spin"
+      ? spinRate
+      : efficiency > MIN_DISPLAY_EFFICIENCY
+        ? activeSpinRate / efficiency
+        : solvedSpinRate;
+  const displaySpinTilt = inputMode === "spin" ? spinTilt : breakToTilt(ivb, hb);
+
+  // Switching modes carries the derived values over so the pitch doesn't change
+  const handleInputModeChange = useCallback(
+    (mode: PitchInputMode) => {
+      if (mode === inputMode) return;
+      if (mode === "break") {
+        setIvb(Math.round(displayIvb * 10) / 10);
+        setHb(Math.round(displayHb * 10) / 10);
+      } else {
+        setSpinRate(Math.round(displaySpinRate / 10) * 10);
+        setSpinTilt(displaySpinTilt);
+      }
+      setInputMode(mode);
+    },
+    [inputMode, displayIvb, displayHb, displaySpinRate, displaySpinTilt]
   );
 
+  // Moves the target, e.g. to the closest point a failed solve can reach
+  const handleAimAt = useCallback((target: { x: number; y: number }) => {
+    setTargetX(target.x);
+    setTargetY(target.y);
+  }, []);
+
+  // Dragging on the movement chart edits the break controls directly
+  const handleMovementChange = useCallback((newIvb: number, newHb: number) => {
+    setStatcastPitch(null);
+    setInputMode("break");
+    setIvb(newIvb);
+    setHb(newHb);
+  }, []);
+
+  // Switching hands mirrors the pitch across the center line
+  const handleHandednessChange = useCallback(
+    (hand: Handedness) => {
+      if (hand === handedness) return;
+      setHandedness(hand);
+      setRelease({ ...release, sideFt: -release.sideFt });
+      setHb(-hb);
+      setSpinTilt((360 - spinTilt) % 360);
+      setGyroAngle(-gyroAngle);
+      setSecondPitch((prev) => ({ ...prev, hb: -prev.hb }));
+    },
+    [handedness, release, hb, spinTilt, gyroAngle]
+  );
+
+  // Starts a pitch from the release; replays call this in the same batch as the
+  // state they load, so the snapshot below sees the pitch they set up
+  const startThrow = useCallback(
+    (log: boolean) => {
+      pendingThrowRef.current = { log };
+      thrownPitchRef.current = null; // Replaced once the new pitch renders
+      isThrowCompleteRef.current = false;
+      setThrowCount((count) => count + 1); // Renders even if nothing else changed
+      playbackClock.set(0);
+      setIsAnimating(true);
+    },
+    [playbackClock]
+  );
+
+  // Snapshot a pitch just thrown (and log it when asked). No dependency list:
+  // it has to run after whichever render the throw lands in.
+  useEffect(() => {
+    const pending = pendingThrowRef.current;
+    if (!pending) return;
+    pendingThrowRef.current = null;
+    const call = callPitch(getPositionAtTime, flightTime, zoneBounds);
+    thrownPitchRef.current = {
+      id: nextPitchId.current++,
+      pitchType,
+      velocity: metrics.releaseSpeedMPH, // Also right for a replayed Statcast fit
+      ivb: inducedBreak.ivb,
+      hb: inducedBreak.hb,
+      flightTime,
+      getPositionAtTime,
+      path: samplePath(getPositionAtTime, flightTime),
+      call,
+    };
+    if (pending.log) {
+      const plate = getPositionAtTime(flightTime);
+      logPitch({
+        id: createId(),
+        timestamp: Date.now(),
+        setup: pitchSetup,
+        releaseSpeedMPH: metrics.releaseSpeedMPH,
+        flightTime,
+        plate: { x: plate.x, y: plate.y },
+        call,
+        trajectory: sampleTrajectory(getPositionAtTime, flightTime),
+      });
+    }
+  });
+
+  // The ball flies the pitch as thrown, not whatever the controls say mid-flight
+  const getInFlightPitch = useCallback(() => thrownPitchRef.current, []);
+
   // Handler to start the pitch animation
   const handleThrowPitch = useCallback(() => {
-    console.log("Throwing pitch with:", { velocity, ivb, hb });
-    // Re-enable animation triggering
-    setAnimationTime(0);
-    setIsAnimating(true);
-  }, [velocity, ivb, hb]);
+    console.log("Throwing pitch with:", {
+      velocity,
+      ivb,
+      hb,
+      spinSettings,
+      release,
+      environment,
+    });
+    startThrow(true);
+  }, [velocity, ivb, hb, spinSettings, release, environment, startThrow]);
+
+  // Restore a logged pitch exactly and throw it again (without logging it twice)
+  const handleReplayLoggedPitch = useCallback((pitch: SessionPitch) => {
+    const { setup } = pitch;
+    setPitchType(setup.pitchType);
+    setVelocity(setup.velocity);
+    setIvb(setup.ivb);
+    setHb(setup.hb);
+    setInputMode(setup.inputMode);
+    setSpinRate(setup.spinRate);
+    setSpinTilt(setup.spinTilt);
+    setGyroAngle(setup.gyroAngle);
+    setHandedness(setup.handedness);
+    setRelease(setup.release);
+    setBatter(setup.batter);
+    setEnvironment(setup.environment);
+    setStatcastPitch(setup.statcastPitch);
+    setTargetX(setup.target.x);
+    setTargetY(setup.target.y);
+    startThrow(false);
+  }, [startThrow]);
+
+  // Load a Statcast fit into the scene, mark where it crosses the target plane
+  // (plate_x/plate_z are at the front of the plate) and throw it
+  const handleReplayStatcast = useCallback((pitch: StatcastPitch) => {
+    const fit = solvePitch({
+      velocityMPH: velocity,
+      ivbInches: ivb,
+      hbInches: hb,
+      // Only the plane matters to a usable fit; an unusable one is aimed here instead
+      target: { x: pitch.plate_x * FEET_TO_METERS, y: pitch.plate_z * FEET_TO_METERS, z: targetPlateBackZ },
+      spinSettings: null,
+      release,
+      environment,
+      statcastPitch: pitch,
+    });
+    const plate = fit.getPositionAtTime(fit.flightTime);
+    setStatcastPitch(pitch);
+    setPitchType(null);
+    setTargetX(plate.x);
+    setTargetY(plate.y);
+    startThrow(false);
+  }, [velocity, ivb, hb, targetPlateBackZ, release, environment, startThrow]);
+
+  // Browse a saved pitcher, taking on their command settings when saved with them
+  const handleSelectProfile = useCallback((profile: PitcherProfile | null) => {
+    setSelectedProfileId(profile?.id ?? null);
+    if (profile?.command) setCommand(profile.command);
+  }, []);
+
+  // Fill the controls with a pitch from the library (doesn't throw it)
+  const handleSelectLibraryPitch = useCallback((selection: PitchSelection) => {
+    setStatcastPitch(null);
+    setInputMode("break");
+    setPitchType(selection.pitchType);
+    setVelocity(selection.velocity);
+    setIvb(selection.ivb);
+    setHb(selection.hb);
+    if (selection.handedness) setHandedness(selection.handedness);
+    if (selection.release) setRelease(selection.release);
+  }, []);
+
+  // Load an imported pitch into the controls and target, then throw it
+  const handleSelectImportedPitch = useCallback((pitch: ImportedPitch) => {
+    setStatcastPitch(null);
+    setInputMode("break");
+    setPitchType(normalizePitchType(pitch.pitchType));
+    setVelocity(pitch.velocity);
+    setIvb(pitch.ivb);
+    setHb(pitch.hb);
+    if (pitch.handedness) setHandedness(pitch.handedness);
+    // No release columns: at least put the pitcher on the correct side
+    const pitchRelease =
+      pitch.release ??
+      (pitch.handedness ? { ...release, sideFt: defaultReleaseSide(pitch.handedness) } : release);
+    setRelease(pitchRelease);
+    // The location is measured at the front of the plate; aim where that pitch
+    // crosses the target plane
+    const target = targetFromFrontOfPlate(
+      {
+        velocityMPH: pitch.velocity,
+        ivbInches: pitch.ivb,
+        hbInches: pitch.hb,
+        target: { x: 0, y: 0, z: targetPlateBackZ },
+        spinSettings: null,
+        release: pitchRelease,
+        environment,
+        statcastPitch: null,
+      },
+      { x: pitch.plateX * FEET_TO_METERS, y: pitch.plateZ * FEET_TO_METERS }
+    );
+    setTargetX(target.x);
+    setTargetY(target.y);
+    startThrow(false);
+  }, [release, environment, targetPlateBackZ, startThrow]);
 
   // Handler for when animation completes
   const handleAnimationComplete = useCallback(() => {
     setIsAnimating(false);
+    // Record the pitch that was thrown, once per throw
+    if (isThrowCompleteRef.current) return;
+    isThrowCompleteRef.current = true;
     console.log("Pitch finished");
+    const thrown = thrownPitchRef.current;
+    thrownPitchRef.current = null;
+    if (!thrown) return;
+    const { call } = thrown;
+    setLastCall(call);
+    setCallTally((prev) =>
+      call.isStrike
+        ? { ...prev, strikes: prev.strikes + 1 }
+        : { ...prev, balls: prev.balls + 1 }
+    );
+    setPitchHistory((prev) => [...prev, thrown].slice(-maxHistory));
+  }, [maxHistory]);
+
+  // End of the timeline: the pitch in flight if there is one, else the controls'
+  const getBallFlightTime = useCallback(
+    () => thrownPitchRef.current?.flightTime ?? flightTime,
+    [flightTime]
+  );
+
+  // Play resumes a paused pitch, or throws again once it has reached the plate
+  const handlePlayPause = useCallback(() => {
+    if (isAnimating) {
+      setIsAnimating(false);
+      return;
+    }
+    if (playbackClock.get() >= getBallFlightTime()) {
+      startThrow(false);
+      return;
+    }
+    setIsAnimating(true);
+  }, [isAnimating, playbackClock, getBallFlightTime, startThrow]);
+
+  // Scrubbing and stepping pause the pitch at the chosen moment. Landing on the
+  // plate finishes a paused throw just as playing through to it would
+  const handleScrub = useCallback(
+    (time: number) => {
+      const end = getBallFlightTime();
+      const clamped = Math.max(0, Math.min(time, end));
+      playbackClock.set(clamped);
+      if (clamped >= end) handleAnimationComplete();
+      else setIsAnimating(false);
+    },
+    [playbackClock, getBallFlightTime, handleAnimationComplete]
+  );
+
+  const handleStepFrames = useCallback(
+    (frames: number) =>
+      handleScrub(Math.min(playbackClock.get(), getBallFlightTime()) + frames * FRAME_STEP),
+    [handleScrub, playbackClock, getBallFlightTime]
+  );
+
+  // Shrinking the history drops the oldest pitches
+  const handleMaxHistoryChange = useCallback((value: number) => {
+    setMaxHistory(value);
+    setPitchHistory((prev) => prev.slice(-value));
   }, []);
 
   return (
     <div id="scene-container">
-      {/* Pitch Controls Component */}
-      <PitchControls
-        velocity={velocity}
-        setVelocity={setVelocity}
-        ivb={ivb}
-        setIvb={setIvb}
-        hb={hb}
-        setHb={setHb}
-        onThrowPitch={handleThrowPitch}
+      <div className="panel-column left">
+        {/* Pitch Controls Component */}
+        <PitchControls
+          pitchType={pitchType}
+          setPitchType={setPitchType}
+          velocity={velocity}
+          setVelocity={setVelocity}
+          inputMode={inputMode}
+          setInputMode={handleInputModeChange}
+          ivb={displayIvb}
+          setIvb={setIvb}
+          hb={displayHb}
+          setHb={setHb}
+          spinRate={displaySpinRate}
+          setSpinRate={setSpinRate}
+          spinTilt={displaySpinTilt}
+          setSpinTilt={setSpinTilt}
+          gyroAngle={gyroAngle}
+          setGyroAngle={setGyroAngle}
+          onThrowPitch={handleThrowPitch}
+          warnings={solverWarnings}
+          targetMissInches={missesTarget ? targetMiss / INCHES_TO_METERS : 0}
+          suggestion={solverSuggestion}
+          onFindFixes={hasFixableWarnings(solverWarnings) ? handleFindFixes : null}
+          onAimAt={handleAimAt}
+        />
+
+        <MovementChart
+          ivb={displayIvb}
+          hb={displayHb}
+          pitchType={pitchType}
+          onChange={handleMovementChange}
+          handedness={handedness}
+          history={pitchHistory}
+          arsenal={profiles.find((p) => p.id === selectedProfileId)?.arsenal ?? []}
+        />
+
+        <ReleaseControls
+          handedness={handedness}
+          onHandednessChange={handleHandednessChange}
+          release={release}
+          setRelease={setRelease}
+        />
+
+        <BatterPanel batter={batter} setBatter={setBatter} />
+
+        <EnvironmentPanel
+          environment={environment}
+          setEnvironment={setEnvironment}
+          current={{ airDensity, ...inducedBreak, plateSpeedMPH }}
+          reference={{
+            airDensity: seaLevelTrajectory.airDensity,
+            ...seaLevelTrajectory.inducedBreak,
+            plateSpeedMPH: seaLevelTrajectory.plateSpeedMPH,
+          }}
+        />
+
+        <HistoryPanel
+          pitches={pitchHistory}
+          maxHistory={maxHistory}
+          setMaxHistory={handleMaxHistoryChange}
+          onClear={() => setPitchHistory([])}
+        />
+
+        <SessionLogPanel
+          pitches={sessionLog}
+          onReplay={handleReplayLoggedPitch}
+          onClear={clearSessionLog}
+        />
+
+        <TunnelPanel
+          history={pitchHistory}
+          isEnabled={showTunnel}
+          setIsEnabled={setShowTunnel}
+          sourceA={tunnelSourceA}
+          setSourceA={setTunnelSourceA}
+          sourceB={tunnelSourceB}
+          setSourceB={setTunnelSourceB}
+          thresholdInches={tunnelThreshold}
+          setThresholdInches={setTunnelThreshold}
+          analysis={tunnelAnalysis}
+          secondPitch={secondPitch}
+          setSecondPitch={setSecondPitch}
+          handedness={handedness}
+        />
+
+        <HeatMapPanel
+          settings={heatMapSettings}
+          setSettings={setHeatMapSettings}
+          historyCount={pitchHistory.length}
+          importedCount={importedPitches.length}
+          mappedCount={heatMapLocations.length}
+        />
+      </div>
+
+      <CameraToolbar
+        presets={cameraPresets}
+        activePresetId={cameraRequest.presetId}
+        onSelect={handleSelectCameraPreset}
+        onSaveCurrent={handleSaveCameraPreset}
+        onDelete={deleteCameraPreset}
+        onCopyLink={handleCopyLink}
       />
 
-      {/* Target Pad Component - Pass strike zone dims */}
-      <TargetPad
-        targetX={targetX}
-        setTargetX={setTargetX}
-        targetY={targetY}
-        setTargetY={setTargetY}
-        strikeZoneWidth_m={STRIKE_ZONE_WIDTH}
-        strikeZoneBottom_m={STRIKE_ZONE_BOTTOM}
-        strikeZoneTop_m={STRIKE_ZONE_TOP}
-        setIsDraggingTarget={setIsDraggingTarget}
+      <div className="panel-column right">
+        {/* Target Pad Component - Pass strike zone dims */}
+        <TargetPad
+          targetX={targetX}
+          setTargetX={setTargetX}
+          targetY={targetY}
+          setTargetY={setTargetY}
+          strikeZoneWidth_m={STRIKE_ZONE_WIDTH}
+          strikeZoneBottom_m={zoneBounds.bottom}
+          strikeZoneTop_m={zoneBounds.top}
+          setIsDraggingTarget={setIsDraggingTarget}
+        />
+
+        <MetricsPanel metrics={metrics} />
+
+        <DisplayPanel display={display} setDisplay={setDisplay} />
+
+        <CallPanel
+          lastCall={lastCall}
+          tally={callTally}
+          onResetTally={() => setCallTally({ balls: 0, strikes: 0 })}
+        />
+
+        <CommandPanel
+          command={command}
+          setCommand={setCommand}
+          count={simulationCount}
+          setCount={setSimulationCount}
+          onSimulate={() => setCommandDraws(drawCommandSamples(simulationCount))}
+          onClear={() => setCommandDraws([])}
+          cloud={commandCloud}
+        />
+
+        <LibraryPanel
+          profiles={profiles}
+          saveProfile={saveProfile}
+          deleteProfile={deleteProfile}
+          importProfiles={importProfiles}
+          selectedProfileId={selectedProfileId}
+          onSelectProfile={handleSelectProfile}
+          current={{
+            velocity,
+            ivb: displayIvb,
+            hb: displayHb,
+            handedness,
+            release,
+            command,
+          }}
+          onSelect={handleSelectLibraryPitch}
+        />
+
+        <StatcastPanel
+          isActive={statcastPitch !== null}
+          onReplay={handleReplayStatcast}
+          onClear={() => setStatcastPitch(null)}
+        />
+
+        <ImportPanel
+          pitches={importedPitches}
+          onImport={setImportedPitches}
+          onSelect={handleSelectImportedPitch}
+        />
+      </div>
+
+      <PlaybackBar
+        isPlaying={isAnimating}
+        onPlayPause={handlePlayPause}
+        clock={playbackClock}
+        flightTime={flightTime}
+        onScrub={handleScrub}
+        onStep={handleStepFrames}
+        speed={playbackSpeed}
+        setSpeed={setPlaybackSpeed}
       />
 
       {/* Display Camera Info */}
       <p
+        ref={cameraInfoRef}
         style={{
           position: "absolute",
           bottom: "10px",
@@ -115,7 +1102,7 @@ function App() {
           zIndex: 10,
         }}
       >
-        {cameraInfo}
+        Loading camera info...
       </p>
 
       <Canvas
@@ -137,8 +1124,9 @@ function App() {
       >
         {/* Controls use the initialCameraTarget */}
         <CameraInfoLogger
-          onCameraChange={setCameraInfo}
-          initialTarget={initialCameraTarget}
+          onCameraChange={handleCameraChange}
+          initialTarget={cameraTarget}
+          view={requestedCameraView}
         />
 
         <ambientLight intensity={0.8} />
@@ -160,32 +1148,56 @@ function App() {
           releasePoint={releasePoint}
           isAnimating={isAnimating}
           onAnimationComplete={handleAnimationComplete}
-          animationTime={animationTime}
-          setAnimationTime={setAnimationTime}
-        />
-        <mesh
-          rotation={[-Math.PI / 2, 0, 0]}
-          position={[0, 0, -50]}
-          receiveShadow
-        >
-          <planeGeometry args={[50, 100]} />
-          <meshStandardMaterial color="lightgreen" />
-        </mesh>
+          getInFlightPitch={getInFlightPitch}
+          clock={playbackClock}
+          playbackSpeed={playbackSpeed}
+          spin={spin}
+        />
+        <PitchTrails pitches={pitchHistory} showLatestTrail={!isAnimating} />
+        <BreakOverlay
+          flight={currentFlight}
+          noSpinFlight={noSpinTrajectory}
+          inducedBreak={inducedBreak}
+          controlBreak={
+            statcastPitch ? inducedBreak : { ivb: displayIvb, hb: displayHb }
+          }
+          showNoSpin={display.showNoSpinPath}
+          showLineOfSight={display.showLineOfSight}
+        />
+        {tunnelAnalysis && tunnelA && tunnelB && (
+          <TunnelMarkers
+            pitchA={tunnelA.pitch}
+            pitchB={tunnelB.pitch}
+            colorA={tunnelA.color}
+            colorB={tunnelB.color}
+            analysis={tunnelAnalysis}
+          />
+        )}
+        {commandCloud && <CommandCloudView cloud={commandCloud} planeZ={targetPlateBackZ} />}
+        {display.showField && (
+          <>
+            <FieldEnvironment />
+            <PitcherFigure releasePoint={releasePoint} handedness={handedness} />
+          </>
+        )}
         <HomePlate />
         <StrikeZone
           strikeZoneWidth={STRIKE_ZONE_WIDTH}
-          strikeZoneBottom={STRIKE_ZONE_BOTTOM}
-          strikeZoneTop={STRIKE_ZONE_TOP}
+          strikeZoneBottom={zoneBounds.bottom}
+          strikeZoneTop={zoneBounds.top}
           plateTotalDepth={PLATE_TOTAL_DEPTH}
+          showGrid={display.showZoneGrid}
+          heatMap={heatMap}
         />
+        {display.showBatter && <BatterSilhouette batter={batter} />}
         <axesHelper args={[1]} />
         {/* Target Sphere */}
         <group position={[targetX, targetY, targetPlateBackZ]}>
-          {/* Main luminous red target sphere */}
+          {/* Main luminous red target sphere; amber when the pitch can't reach it */}
           <Sphere args={[0.035, 32, 32]}>
             <meshStandardMaterial
-              color="#ff0000"
-              emissive="#ff3333"
+              color={missesTarget ? TARGET_MISS_COLOR : "#ff0000"}
+              emissive={missesTarget ? TARGET_MISS_COLOR : "#ff3333"}
               emissiveIntensity={2.0}
               roughness={0.2}
               metalness={0.8}
@@ -195,14 +1207,34 @@ function App() {
           {/* Outer glow sphere */}
           <Sphere args={[0.045, 16, 16]}>
             <meshStandardMaterial
-              color="#ff0000"
+              color={missesTarget ? TARGET_MISS_COLOR : "#ff0000"}
               transparent={true}
               opacity={0.15}
-              emissive="#ff0000"
+              emissive={missesTarget ? TARGET_MISS_COLOR : "#ff0000"}
               emissiveIntensity={1.5}
             />
           </Sphere>
           
+          {/* How far off the solved pitch lands, and where */}
+          {missesTarget && (
+            <>
+              <Line
+                points={[
+                  [0, 0, 0],
+                  [missedPlate.x - targetX, missedPlate.y - targetY, missedPlate.z - targetPlateBackZ],
+                ]}
+                color={TARGET_MISS_COLOR}
+                lineWidth={2}
+                dashed={true}
+                dashSize={0.02}
+                gapSize={0.02}
+              />
+              <Html position={[0, 0.07, 0]} center={true} style={TARGET_MISS_LABEL_STYLE}>
+                Misses by {(targetMiss / INCHES_TO_METERS).toFixed(1)}"
+              </Html>
+            </>
+          )}
+
           {/* Horizontal white lines on left and right - only visible when dragging */}
           {isDraggingTarget && (
             <>
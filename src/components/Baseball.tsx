@@ -1,6 +1,29 @@
-import React, { useRef } from "react";
+import React, { useRef, useMemo } from "react";
 import { useFrame } from "@react-three/fiber";
 import * as THREE from "three";
+import { BALL_RADIUS } from "../constants";
+import { PlaybackClock } from "../utils/playbackClock";
+
+// Seam path on a unit sphere: the classic "tennis ball" curve. The seam crosses
+// the equator (z = 0) four times, so spinning about local Z shows a 4-seam look.
+const SEAM_LOBE = 0.3; // Larger values pinch the two horseshoes closer together
+const SEAM_THICKNESS = BALL_RADIUS * 0.06;
+const seamPoint = (t: number): THREE.Vector3 => {
+  const a = 1 - SEAM_LOBE;
+  const b = SEAM_LOBE;
+  return new THREE.Vector3(
+    a * Math.cos(t) + b * Math.cos(3 * t),
+    a * Math.sin(t) - b * Math.sin(3 * t),
+    2 * Math.sqrt(a * b) * Math.sin(2 * t)
+  );
+};
+
+const LOCAL_SPIN_AXIS = new THREE.Vector3(0, 0, 1);
+
+interface Flight {
+  getPositionAtTime: (t: number) => { x: number; y: number; z: number };
+  flightTime: number;
+}
 
 interface BaseballProps {
   // Function to get position at a given time
@@ -13,10 +36,14 @@ interface BaseballProps {
   isAnimating: boolean;
   // Callback to signal animation completion
   onAnimationComplete: () => void;
-  // Current animation time (controlled by parent)
-  animationTime: number;
-  // Setter for animation time (controlled by parent)
-  setAnimationTime: (time: number) => void;
+  // The thrown pitch until it lands, followed instead of the props above
+  getInFlightPitch: () => Flight | null;
+  // Time since release, advanced here each frame while animating
+  clock: PlaybackClock;
+  // Playback rate, 1 = real time
+  playbackSpeed: number;
+  // Spin vector (rad/s); zero for replays without spin
+  spin: { x: number; y: number; z: number };
 }
 
 const Baseball: React.FC<BaseballProps> = ({
@@ -25,33 +52,62 @@ const Baseball: React.FC<BaseballProps> = ({
   releasePoint,
   isAnimating,
   onAnimationComplete,
-  animationTime,
-  setAnimationTime,
+  getInFlightPitch,
+  clock,
+  playbackSpeed,
+  spin,
 }) => {
-  // Ref to access the mesh object
-  const meshRef = useRef<THREE.Mesh>(null!);
+  // Ref to access the ball (sphere plus seams)
+  const ballRef = useRef<THREE.Group>(null!);
+
+  // Sits just proud of the surface so it doesn't z-fight with the sphere
+  const seamCurve = useMemo(() => {
+    const points = Array.from({ length: 200 }, (_, i) =>
+      seamPoint((i / 200) * Math.PI * 2).multiplyScalar(BALL_RADIUS * 1.01)
+    );
+    return new THREE.CatmullRomCurve3(points, true);
+  }, []);
+
+  // Turn the ball so it spins about local Z, i.e. shows its 4-seam orientation
+  const spinRate = Math.hypot(spin.x, spin.y, spin.z); // rad/s
+  const spinAxis = useMemo(
+    () =>
+      spinRate > 0
+        ? new THREE.Vector3(spin.x, spin.y, spin.z).normalize()
+        : LOCAL_SPIN_AXIS.clone(),
+    [spin.x, spin.y, spin.z, spinRate]
+  );
+  const baseOrientation = useMemo(
+    () => new THREE.Quaternion().setFromUnitVectors(LOCAL_SPIN_AXIS, spinAxis),
+    [spinAxis]
+  );
 
   useFrame((_, delta) => {
-    if (!meshRef.current) return; // Guard clause
+    if (!ballRef.current) return; // Guard clause
+
+    // A control moved mid-flight mustn't bend the ball off the pitch it threw
+    const inFlight = getInFlightPitch();
+    const positionAt = inFlight?.getPositionAtTime ?? getPositionAtTime;
+    const endTime = inFlight?.flightTime ?? flightTime;
 
     let targetPosition: { x: number; y: number; z: number };
+    const animationTime = clock.get();
+    let time = animationTime; // Ball clock, which slows down with the playback
 
     if (isAnimating) {
       // --- Animation is active ---
       const newTime = Math.min(
-        animationTime + delta,
-        flightTime > 0 ? flightTime : 0
+        animationTime + delta * playbackSpeed,
+        endTime > 0 ? endTime : 0
       ); // Calculate new time, clamp at end, handle flightTime=0
 
-      // Only update state if time actually changed
-      if (newTime !== animationTime) {
-        setAnimationTime(newTime);
-      }
+      clock.set(newTime);
 
-      targetPosition = getPositionAtTime(newTime);
+      targetPosition = positionAt(newTime);
+      time = newTime;
 
-      // Check for completion
-      if (newTime >= flightTime && flightTime > 0) {
+      // The parent records each throw once, however many frames report it
+      if (newTime >= endTime && endTime > 0) {
         console.log(
           "[Baseball] Animation ended. Final Position:",
           targetPosition
@@ -60,9 +116,9 @@ const Baseball: React.FC<BaseballProps> = ({
       }
     } else {
       // --- Animation is not active ---
-      if (animationTime >= flightTime && flightTime > 0) {
-        // If previously completed, stay at end point
-        targetPosition = getPositionAtTime(flightTime);
+      if (animationTime > 0 && endTime > 0) {
+        // Paused, scrubbed or finished: hold the ball where the timeline is
+        targetPosition = positionAt(Math.min(animationTime, endTime));
       } else {
         // Otherwise, stay/reset to release point
         targetPosition = releasePoint;
@@ -72,18 +128,30 @@ const Baseball: React.FC<BaseballProps> = ({
     }
 
     // Set position *once* per frame based on calculated target
-    meshRef.current.position.set(
+    ballRef.current.position.set(
       targetPosition.x,
       targetPosition.y,
       targetPosition.z
     );
+
+    // Rotate about the spin axis by the angle turned since release
+    const angle = spinRate * Math.min(time, endTime);
+    ballRef.current.quaternion
+      .setFromAxisAngle(spinAxis, angle)
+      .multiply(baseOrientation);
   });
 
   return (
-    <mesh ref={meshRef}>
-      <sphereGeometry args={[0.073 / 2, 32, 32]} />
-      <meshStandardMaterial color="white" />
-    </mesh>
+    <group ref={ballRef}>
+      <mesh>
+        <sphereGeometry args={[BALL_RADIUS, 32, 32]} />
+        <meshStandardMaterial color="white" />
+      </mesh>
+      <mesh>
+        <tubeGeometry args={[seamCurve, 200, SEAM_THICKNESS, 6, true]} />
+        <meshStandardMaterial color="#c8102e" />
+      </mesh>
+    </group>
   );
 };
 
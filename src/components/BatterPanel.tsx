@@ -0,0 +1,107 @@
+import React from 'react';
+import { BatterSettings, batterZone, stanceHeight } from '../utils/batter';
+import { FEET_TO_METERS, INCHES_TO_METERS } from '../constants';
+import { PANEL_STYLE, toggleButtonStyle } from '../styles';
+
+interface BatterPanelProps {
+  batter: BatterSettings;
+  setBatter: (batter: BatterSettings) => void;
+}
+
+const formatHeight = (inches: number) => `${Math.floor(inches / 12)}' ${Math.round(inches % 12)}"`;
+
+const BatterPanel: React.FC<BatterPanelProps> = ({ batter, setBatter }) => {
+  const update = (changes: Partial<BatterSettings>) => setBatter({ ...batter, ...changes });
+
+  // Zone from the measurements alone, used to seed an override when it's switched on
+  const derived = batterZone({ ...batter, szTopFt: null, szBotFt: null });
+  const zone = batterZone(batter);
+
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Batter</h4>
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <button style={toggleButtonStyle(batter.side === 'R')} onClick={() => update({ side: 'R' })}>
+          RHB
+        </button>
+        <button style={toggleButtonStyle(batter.side === 'L')} onClick={() => update({ side: 'L' })}>
+          LHB
+        </button>
+      </div>
+      <div>
+        <label>Height: {formatHeight(batter.heightIn)}</label>
+        <input
+          type="range"
+          min="60"
+          max="84"
+          step="1"
+          value={batter.heightIn}
+          onChange={(e) => update({ heightIn: parseFloat(e.target.value) })}
+          style={{ width: '100%' }}
+        />
+      </div>
+      <div>
+        <label>
+          Stance Crouch (%): {(batter.crouch * 100).toFixed(0)} ({formatHeight(stanceHeight(batter) / INCHES_TO_METERS)} in stance)
+        </label>
+        <input
+          type="range"
+          min="0"
+          max="30"
+          step="1"
+          value={batter.crouch * 100}
+          onChange={(e) => update({ crouch: parseFloat(e.target.value) / 100 })}
+          style={{ width: '100%' }}
+        />
+      </div>
+      <div>
+        <label>
+          <input
+            type="checkbox"
+            checked={batter.szTopFt !== null}
+            onChange={(e) =>
+              update({ szTopFt: e.target.checked ? Math.round((derived.top / FEET_TO_METERS) * 100) / 100 : null })
+            }
+          />
+          sz_top (ft): {(zone.top / FEET_TO_METERS).toFixed(2)}
+        </label>
+        {batter.szTopFt !== null && (
+          <input
+            type="range"
+            min="2.5"
+            max="4.5"
+            step="0.01"
+            value={batter.szTopFt}
+            onChange={(e) => update({ szTopFt: parseFloat(e.target.value) })}
+            style={{ width: '100%' }}
+          />
+        )}
+      </div>
+      <div>
+        <label>
+          <input
+            type="checkbox"
+            checked={batter.szBotFt !== null}
+            onChange={(e) =>
+              update({ szBotFt: e.target.checked ? Math.round((derived.bottom / FEET_TO_METERS) * 100) / 100 : null })
+            }
+          />
+          sz_bot (ft): {(zone.bottom / FEET_TO_METERS).toFixed(2)}
+        </label>
+        {batter.szBotFt !== null && (
+          <input
+            type="range"
+            min="1"
+            max="2.5"
+            step="0.01"
+            value={batter.szBotFt}
+            onChange={(e) => update({ szBotFt: parseFloat(e.target.value) })}
+            style={{ width: '100%' }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatterPanel;
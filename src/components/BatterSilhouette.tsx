@@ -0,0 +1,51 @@
+import React from "react";
+import { BatterSettings, batterStanceX, stanceHeight } from "../utils/batter";
+import { PLATE_TOTAL_DEPTH } from "../constants";
+
+interface BatterSilhouetteProps {
+  batter: BatterSettings;
+}
+
+const SILHOUETTE_COLOR = "#333344";
+const SILHOUETTE_OPACITY = 0.35; // See-through so pitches behind the batter stay visible
+
+/**
+ * A simple stick-and-capsule hitter in the stance, sized from the batter's
+ * height and crouch and facing the plate from the correct box.
+ */
+const BatterSilhouette: React.FC<BatterSilhouetteProps> = ({ batter }) => {
+  const h = stanceHeight(batter);
+  const facing = batter.side === "R" ? 1 : -1; // +1 faces +X (towards the plate from the left box)
+  const material = (
+    <meshStandardMaterial color={SILHOUETTE_COLOR} transparent={true} opacity={SILHOUETTE_OPACITY} />
+  );
+
+  return (
+    <group position={[batterStanceX(batter), 0, PLATE_TOTAL_DEPTH / 2]}>
+      {/* Legs, spread along the line to the mound */}
+      {[-1, 1].map((foot) => (
+        <mesh key={foot} position={[0, h * 0.25, foot * h * 0.12]} rotation={[-foot * 0.25, 0, 0]}>
+          <cylinderGeometry args={[h * 0.035, h * 0.03, h * 0.5, 12]} />
+          {material}
+        </mesh>
+      ))}
+      {/* Torso, leaning slightly over the plate */}
+      <mesh position={[facing * h * 0.03, h * 0.66, 0]} rotation={[0, 0, -facing * 0.15]}>
+        <capsuleGeometry args={[h * 0.09, h * 0.24, 4, 12]} />
+        {material}
+      </mesh>
+      {/* Head */}
+      <mesh position={[facing * h * 0.06, h * 0.93, 0]}>
+        <sphereGeometry args={[h * 0.065, 16, 16]} />
+        {material}
+      </mesh>
+      {/* Bat, held up behind the back shoulder */}
+      <mesh position={[0, h * 0.95, h * 0.12]} rotation={[-0.6, 0, 0]}>
+        <cylinderGeometry args={[h * 0.02, h * 0.01, h * 0.5, 8]} />
+        {material}
+      </mesh>
+    </group>
+  );
+};
+
+export default BatterSilhouette;
@@ -0,0 +1,148 @@
+import React, { useMemo } from "react";
+import { Cone, Html, Line } from "@react-three/drei";
+import * as THREE from "three";
+import { samplePath } from "../utils/pitchHistory";
+
+type Vector3 = { x: number; y: number; z: number };
+
+interface Flight {
+  getPositionAtTime: (t: number) => Vector3;
+  flightTime: number;
+}
+
+interface BreakOverlayProps {
+  flight: Flight; // The real pitch
+  noSpinFlight: Flight; // Same release velocity, no spin
+  inducedBreak: { ivb: number; hb: number }; // inches, in the current air
+  // IVB/HB in the controls, which describe the pitch in reference air
+  controlBreak: { ivb: number; hb: number };
+  showNoSpin: boolean;
+  showLineOfSight: boolean;
+}
+
+const NO_SPIN_COLOR = "#9aa0a6";
+const LINE_OF_SIGHT_COLOR = "#ffffff";
+const IVB_COLOR = "#ff5c5c";
+const HB_COLOR = "#5cb8ff";
+const ARROW_HEAD_LENGTH = 0.03;
+const ARROW_HEAD_RADIUS = 0.012;
+const MIN_ARROW_LENGTH = 0.005; // meters; shorter arrows are skipped
+
+// Actual break, plus the control value when the air makes them differ
+const breakLabel = (name: string, actual: number, control: number) =>
+  `${name} ${actual.toFixed(1)}"` +
+  (actual.toFixed(1) !== control.toFixed(1) ? ` (${control.toFixed(1)}" in reference air)` : "");
+
+const labelStyle: React.CSSProperties = {
+  color: "white",
+  fontSize: "12px",
+  whiteSpace: "nowrap",
+  background: "rgba(0,0,0,0.6)",
+  padding: "1px 4px",
+  borderRadius: "3px",
+  pointerEvents: "none",
+};
+
+// A shaft with a cone at `to`, labeled at its midpoint
+const Arrow: React.FC<{ from: Vector3; to: Vector3; color: string; label: string }> = ({
+  from,
+  to,
+  color,
+  label,
+}) => {
+  const direction = new THREE.Vector3(to.x - from.x, to.y - from.y, to.z - from.z);
+  const length = direction.length();
+  if (length < MIN_ARROW_LENGTH) return null;
+  direction.normalize();
+
+  // Cones point along +Y by default
+  const headRotation = new THREE.Euler().setFromQuaternion(
+    new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction)
+  );
+  const headLength = Math.min(ARROW_HEAD_LENGTH, length / 2);
+  const headCenter = new THREE.Vector3(to.x, to.y, to.z).addScaledVector(direction, -headLength / 2);
+  const shaftEnd = new THREE.Vector3(to.x, to.y, to.z).addScaledVector(direction, -headLength);
+
+  return (
+    <>
+      <Line points={[[from.x, from.y, from.z], shaftEnd.toArray()]} color={color} lineWidth={3} />
+      <Cone
+        args={[ARROW_HEAD_RADIUS, headLength, 12]}
+        position={headCenter.toArray()}
+        rotation={headRotation}
+      >
+        <meshBasicMaterial color={color} />
+      </Cone>
+      <Html
+        position={[(from.x + to.x) / 2, (from.y + to.y) / 2, (from.z + to.z) / 2]}
+        center={true}
+        style={labelStyle}
+      >
+        {label}
+      </Html>
+    </>
+  );
+};
+
+/**
+ * Shows what IVB/HB mean: the path the ball would take with no spin, and
+ * arrows at the plate from where that ball ends up to where the pitch does,
+ * split into the vertical and horizontal parts.
+ */
+const BreakOverlay: React.FC<BreakOverlayProps> = ({
+  flight,
+  noSpinFlight,
+  inducedBreak,
+  controlBreak,
+  showNoSpin,
+  showLineOfSight,
+}) => {
+  const noSpinPath = useMemo(
+    () => samplePath(noSpinFlight.getPositionAtTime, noSpinFlight.flightTime),
+    [noSpinFlight]
+  );
+
+  const release = flight.getPositionAtTime(0);
+  const plate = flight.getPositionAtTime(flight.flightTime);
+  const noSpinPlate = noSpinFlight.getPositionAtTime(noSpinFlight.flightTime);
+  // The vertical arrow rises from the spinless ball, then the horizontal one runs across
+  const corner = { x: noSpinPlate.x, y: plate.y, z: plate.z };
+  const noSpinAtPlane = { ...noSpinPlate, z: plate.z };
+
+  return (
+    <>
+      {showNoSpin && (
+        <>
+          <Line points={noSpinPath} color={NO_SPIN_COLOR} lineWidth={2} dashed={true} dashSize={0.1} gapSize={0.05} />
+          <Arrow
+            from={noSpinAtPlane}
+            to={corner}
+            color={IVB_COLOR}
+            label={breakLabel("IVB", inducedBreak.ivb, controlBreak.ivb)}
+          />
+          <Arrow
+            from={corner}
+            to={plate}
+            color={HB_COLOR}
+            label={breakLabel("HB", inducedBreak.hb, controlBreak.hb)}
+          />
+        </>
+      )}
+      {showLineOfSight && (
+        <Line
+          points={[
+            [release.x, release.y, release.z],
+            [plate.x, plate.y, plate.z],
+          ]}
+          color={LINE_OF_SIGHT_COLOR}
+          lineWidth={1}
+          dashed={true}
+          dashSize={0.05}
+          gapSize={0.05}
+        />
+      )}
+    </>
+  );
+};
+
+export default BreakOverlay;
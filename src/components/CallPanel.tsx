@@ -0,0 +1,55 @@
+import React from 'react';
+import { CallTally, PitchCall } from '../utils/strikeZone';
+import { INCHES_TO_METERS } from '../constants';
+import { PANEL_STYLE } from '../styles';
+
+interface CallPanelProps {
+  lastCall: PitchCall | null; // null until a pitch has been thrown
+  tally: CallTally;
+  onResetTally: () => void;
+}
+
+const CallPanel: React.FC<CallPanelProps> = ({ lastCall, tally, onResetTally }) => {
+  const edgeInches = lastCall ? Math.abs(lastCall.edgeDistance) / INCHES_TO_METERS : 0;
+
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Call</h4>
+      {lastCall ? (
+        <>
+          <div
+            style={{
+              fontSize: '24px',
+              fontWeight: 'bold',
+              color: lastCall.isStrike ? '#ff6060' : '#60d060',
+            }}
+          >
+            {lastCall.isStrike ? 'STRIKE' : 'BALL'}
+          </div>
+          <div style={{ fontSize: '12px' }}>
+            Zone {lastCall.zone} ({lastCall.zoneLabel})
+          </div>
+          <div style={{ fontSize: '12px' }}>
+            {edgeInches.toFixed(1)} in {lastCall.isStrike ? 'inside' : 'outside'} the edge
+          </div>
+        </>
+      ) : (
+        <div style={{ fontSize: '12px' }}>Throw a pitch to get a call.</div>
+      )}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <span style={{ flex: 1 }}>
+          Balls: {tally.balls} &nbsp; Strikes: {tally.strikes}
+        </span>
+        <button
+          style={{ padding: '2px 6px', fontSize: '12px' }}
+          onClick={onResetTally}
+          disabled={tally.balls === 0 && tally.strikes === 0}
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CallPanel;
@@ -1,23 +1,45 @@
-import React, { useRef, useCallback, useEffect } from 'react';
-import { useThree } from '@react-three/fiber';
+import React, { useRef, useCallback, useEffect, useState } from 'react';
+import { useThree, useFrame } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
 import { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import * as THREE from 'three';
+import { CameraView } from '../utils/cameraPresets';
+
+const TRANSITION_SECONDS = 0.8;
+
+// Smooth start and stop for camera moves
+const easeInOut = (f: number) => (f < 0.5 ? 2 * f * f : 1 - (-2 * f + 2) ** 2 / 2);
 
 // Helper component to log camera changes
 const CameraInfoLogger: React.FC<{
-  onCameraChange: (info: string) => void;
+  onCameraChange: (info: string, view: CameraView) => void;
   initialTarget?: [number, number, number]; // Add optional initial target prop
-}> = ({ onCameraChange, initialTarget }) => {
+  view?: CameraView; // Animates to this view whenever a new one is passed
+}> = ({ onCameraChange, initialTarget, view }) => {
   const { camera } = useThree();
   const controlsRef = useRef<OrbitControlsImpl>(null);
+  // Only used on mount; later moves come through `view`
+  const [mountTarget] = useState(initialTarget);
+  const transitionRef = useRef<{ from: CameraView; to: CameraView; elapsed: number } | null>(null);
 
-  const updateCameraInfo = useCallback(() => {
-    if (!controlsRef.current) return;
-    const pos = camera.position;
+  const currentView = useCallback((): CameraView | null => {
+    if (!controlsRef.current) return null;
     const target = controlsRef.current.target;
-    const info = `Cam Pos: (${pos.x.toFixed(2)}, ${pos.y.toFixed(2)}, ${pos.z.toFixed(2)}) Target: (${target.x.toFixed(2)}, ${target.y.toFixed(2)}, ${target.z.toFixed(2)})`;
-    onCameraChange(info);
-  }, [camera, onCameraChange]);
+    return {
+      position: [camera.position.x, camera.position.y, camera.position.z],
+      target: [target.x, target.y, target.z],
+      fov: camera instanceof THREE.PerspectiveCamera ? camera.fov : 75,
+    };
+  }, [camera]);
+
+  const updateCameraInfo = useCallback(() => {
+    const current = currentView();
+    if (!current) return;
+    const [px, py, pz] = current.position;
+    const [tx, ty, tz] = current.target;
+    const info = `Cam Pos: (${px.toFixed(2)}, ${py.toFixed(2)}, ${pz.toFixed(2)}) Target: (${tx.toFixed(2)}, ${ty.toFixed(2)}, ${tz.toFixed(2)})`;
+    onCameraChange(info, current);
+  }, [currentView, onCameraChange]);
 
   // Update info on mount and when controls change
   useEffect(() => {
@@ -26,19 +48,47 @@ const CameraInfoLogger: React.FC<{
     return () => clearTimeout(timer); // Cleanup timer
   }, [updateCameraInfo]); // Re-run if updateCameraInfo changes (though it shouldn't often)
 
+  // Start a transition from wherever the camera is now
+  useEffect(() => {
+    const from = currentView();
+    if (!view || !from) return;
+    transitionRef.current = { from, to: view, elapsed: 0 };
+  }, [view, currentView]);
+
+  useFrame((_, delta) => {
+    const transition = transitionRef.current;
+    const controls = controlsRef.current;
+    if (!transition || !controls) return;
+
+    transition.elapsed += delta;
+    const f = Math.min(transition.elapsed / TRANSITION_SECONDS, 1);
+    const e = easeInOut(f);
+    const mix = (a: number, b: number) => a + (b - a) * e;
+    const { from, to } = transition;
+
+    camera.position.set(...(from.position.map((v, i) => mix(v, to.position[i])) as [number, number, number]));
+    controls.target.set(...(from.target.map((v, i) => mix(v, to.target[i])) as [number, number, number]));
+    if (camera instanceof THREE.PerspectiveCamera) {
+      camera.fov = mix(from.fov, to.fov);
+      camera.updateProjectionMatrix();
+    }
+    controls.update();
+
+    if (f >= 1) transitionRef.current = null;
+  });
 
   // Modified to address passive event warnings by using specific props
   return (
-    <OrbitControls 
-      ref={controlsRef} 
-      onChange={updateCameraInfo} 
-      target={initialTarget}
+    <OrbitControls
+      ref={controlsRef}
+      onChange={updateCameraInfo}
+      target={mountTarget}
       enableDamping={true}
       dampingFactor={0.25}
       rotateSpeed={0.85}
       makeDefault
       minDistance={0.5} // Prevent zooming too close
-      maxDistance={5}   // Prevent zooming too far
+      maxDistance={80}  // Far enough for the center-field camera
       enablePan={false} // Disable panning to reduce event listeners
       screenSpacePanning={false}
     />
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { CameraPreset } from '../utils/cameraPresets';
+import { toggleButtonStyle } from '../styles';
+
+interface CameraToolbarProps {
+  presets: CameraPreset[]; // Built-in presets first, then the user's
+  activePresetId: string; // Last preset picked
+  onSelect: (preset: CameraPreset) => void;
+  onSaveCurrent: (name: string) => void;
+  onDelete: (id: string) => void;
+  onCopyLink: () => Promise<boolean>; // Resolves false if the link couldn't go on the clipboard
+}
+
+const COPIED_NOTICE_MS = 1500;
+
+const smallButton: React.CSSProperties = { padding: '2px 6px', fontSize: '12px', flex: 'none' };
+
+// Shortcuts shouldn't fire while typing into a field
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement;
+
+const CameraToolbar: React.FC<CameraToolbarProps> = ({
+  presets,
+  activePresetId,
+  onSelect,
+  onSaveCurrent,
+  onDelete,
+  onCopyLink,
+}) => {
+  const [newPresetName, setNewPresetName] = useState<string>('');
+  const [showCopied, setShowCopied] = useState<boolean>(false);
+
+  // Briefly confirm a copied link
+  useEffect(() => {
+    if (!showCopied) return;
+    const timer = setTimeout(() => setShowCopied(false), COPIED_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [showCopied]);
+
+  // Number keys switch to the preset with that shortcut
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+      const preset = presets.find((p) => p.shortcut === e.key);
+      if (preset) onSelect(preset);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [presets, onSelect]);
+
+  const handleSave = () => {
+    const name = newPresetName.trim();
+    if (!name) return;
+    onSaveCurrent(name);
+    setNewPresetName('');
+  };
+
+  return (
+    <div className="camera-toolbar">
+      {presets.map((preset) => (
+        <span key={preset.id} style={{ display: 'inline-flex' }}>
+          <button
+            style={{ ...toggleButtonStyle(preset.id === activePresetId), ...smallButton }}
+            title={preset.shortcut ? `Shortcut: ${preset.shortcut}` : undefined}
+            onClick={() => onSelect(preset)}
+          >
+            {preset.shortcut && <sup>{preset.shortcut} </sup>}
+            {preset.name}
+          </button>
+          {!preset.isBuiltIn && (
+            <button style={smallButton} title="Delete preset" onClick={() => onDelete(preset.id)}>
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+      <input
+        type="text"
+        placeholder="Save view as..."
+        value={newPresetName}
+        onChange={(e) => setNewPresetName(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+        style={{ width: '110px' }}
+      />
+      <button style={smallButton} onClick={handleSave} disabled={!newPresetName.trim()}>
+        Save
+      </button>
+      <button
+        style={smallButton}
+        title="Copy a link to this pitch, view and settings"
+        onClick={() => onCopyLink().then(setShowCopied)}
+      >
+        {showCopied ? 'Copied!' : 'Copy link'}
+      </button>
+    </div>
+  );
+};
+
+export default CameraToolbar;
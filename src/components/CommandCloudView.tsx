@@ -0,0 +1,58 @@
+import React, { useMemo } from 'react';
+import { Instance, Instances, Line } from '@react-three/drei';
+import { CommandCloud, ConfidenceEllipse } from '../utils/command';
+import { BALL_RADIUS } from '../constants';
+
+interface CommandCloudViewProps {
+  cloud: CommandCloud;
+  planeZ: number; // Target plane the cloud is drawn on
+}
+
+const IN_ZONE_COLOR = '#ffd400';
+const OUT_OF_ZONE_COLOR = '#4da6ff';
+const ELLIPSE_COLORS = ['#ffffff', '#ff8c1a'];
+const POINT_RADIUS = BALL_RADIUS / 3;
+const ELLIPSE_SEGMENTS = 72;
+
+const ellipsePoints = (ellipse: ConfidenceEllipse, z: number): [number, number, number][] => {
+  const cos = Math.cos(ellipse.angle);
+  const sin = Math.sin(ellipse.angle);
+  return Array.from({ length: ELLIPSE_SEGMENTS + 1 }, (_, i) => {
+    const t = (i / ELLIPSE_SEGMENTS) * 2 * Math.PI;
+    const u = ellipse.radii[0] * Math.cos(t);
+    const v = ellipse.radii[1] * Math.sin(t);
+    return [ellipse.center.x + u * cos - v * sin, ellipse.center.y + u * sin + v * cos, z];
+  });
+};
+
+/**
+ * Simulated plate locations as dots (yellow in the zone, blue out), with the
+ * confidence ellipses around them.
+ */
+const CommandCloudView: React.FC<CommandCloudViewProps> = ({ cloud, planeZ }) => {
+  const ellipses = useMemo(
+    () => cloud.ellipses.map((ellipse) => ellipsePoints(ellipse, planeZ)),
+    [cloud, planeZ]
+  );
+
+  return (
+    <>
+      <Instances limit={cloud.points.length}>
+        <sphereGeometry args={[POINT_RADIUS, 8, 8]} />
+        <meshBasicMaterial />
+        {cloud.points.map((point, index) => (
+          <Instance
+            key={index}
+            position={[point.x, point.y, planeZ]}
+            color={point.inZone ? IN_ZONE_COLOR : OUT_OF_ZONE_COLOR}
+          />
+        ))}
+      </Instances>
+      {ellipses.map((points, index) => (
+        <Line key={index} points={points} color={ELLIPSE_COLORS[index % ELLIPSE_COLORS.length]} lineWidth={2} />
+      ))}
+    </>
+  );
+};
+
+export default CommandCloudView;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { CommandCloud, CommandSettings, CONFIDENCE_LEVELS } from '../utils/command';
+import { PANEL_STYLE } from '../styles';
+
+interface CommandPanelProps {
+  command: CommandSettings;
+  setCommand: (command: CommandSettings) => void;
+  count: number;
+  setCount: (count: number) => void;
+  onSimulate: () => void;
+  onClear: () => void;
+  cloud: CommandCloud | null;
+}
+
+const SLIDERS: { key: keyof CommandSettings; label: string; unit: string; max: number; step: number }[] = [
+  { key: 'missXIn', label: 'Horizontal Miss', unit: 'in', max: 15, step: 0.5 },
+  { key: 'missYIn', label: 'Vertical Miss', unit: 'in', max: 15, step: 0.5 },
+  { key: 'velocityMph', label: 'Velocity Spread', unit: 'mph', max: 3, step: 0.1 },
+  { key: 'breakIn', label: 'Break Spread', unit: 'in', max: 4, step: 0.1 },
+];
+
+const MAX_COUNT = 2000;
+
+const CommandPanel: React.FC<CommandPanelProps> = ({
+  command,
+  setCommand,
+  count,
+  setCount,
+  onSimulate,
+  onClear,
+  cloud,
+}) => {
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Command (1 SD)</h4>
+      {SLIDERS.map((slider) => (
+        <div key={slider.key}>
+          <label>
+            {slider.label} ({slider.unit}): {command[slider.key].toFixed(1)}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max={slider.max}
+            step={slider.step}
+            value={command[slider.key]}
+            onChange={(e) => setCommand({ ...command, [slider.key]: parseFloat(e.target.value) })}
+          />
+        </div>
+      ))}
+      <div style={{ display: 'flex', gap: '5px', alignItems: 'center' }}>
+        <input
+          type="number"
+          min="2"
+          max={MAX_COUNT}
+          value={count}
+          onChange={(e) => setCount(Math.min(Math.max(parseInt(e.target.value, 10) || 2, 2), MAX_COUNT))}
+          style={{ width: '60px' }}
+        />
+        <button style={{ flex: 1 }} onClick={onSimulate}>
+          Simulate {count}
+        </button>
+        <button onClick={onClear} disabled={!cloud}>
+          Clear
+        </button>
+      </div>
+      {cloud && (
+        <div style={{ fontSize: '13px', textAlign: 'left' }}>
+          <div>
+            In zone: <strong>{(cloud.inZoneRate * 100).toFixed(1)}%</strong> of {cloud.points.length}
+          </div>
+          <div style={{ color: '#aaa' }}>
+            Ellipses hold {CONFIDENCE_LEVELS.map((level) => `${level * 100}%`).join(' / ')} of pitches
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommandPanel;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { DisplaySettings } from '../utils/display';
+import { PANEL_STYLE } from '../styles';
+
+interface DisplayPanelProps {
+  display: DisplaySettings;
+  setDisplay: (display: DisplaySettings) => void;
+}
+
+const OPTIONS: { key: keyof DisplaySettings; label: string }[] = [
+  { key: 'showNoSpinPath', label: 'No-spin path and break arrows' },
+  { key: 'showLineOfSight', label: 'Line of sight' },
+  { key: 'showZoneGrid', label: 'Zone grid, shadow and chase' },
+  { key: 'showField', label: 'Field and pitcher' },
+  { key: 'showBatter', label: 'Batter' },
+];
+
+const DisplayPanel: React.FC<DisplayPanelProps> = ({ display, setDisplay }) => {
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Display</h4>
+      {OPTIONS.map((option) => (
+        <label key={option.key} style={{ textAlign: 'left' }}>
+          <input
+            type="checkbox"
+            checked={display[option.key]}
+            onChange={(e) => setDisplay({ ...display, [option.key]: e.target.checked })}
+          />
+          {option.label}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default DisplayPanel;
@@ -0,0 +1,189 @@
+import React from 'react';
+import { BALLPARKS, EnvironmentSettings } from '../utils/environment';
+import { PANEL_STYLE, toggleButtonStyle } from '../styles';
+
+// Break and plate speed of one flight, for comparing against sea level
+interface FlightSummary {
+  airDensity: number; // kg/m^3
+  ivb: number; // inches
+  hb: number; // inches
+  plateSpeedMPH: number;
+}
+
+interface EnvironmentPanelProps {
+  environment: EnvironmentSettings;
+  setEnvironment: (environment: EnvironmentSettings) => void;
+  current: FlightSummary; // The pitch in the selected environment
+  reference: FlightSummary; // The same pitch in the reference (sea-level) environment
+}
+
+// Formats "value (+delta)" for the comparison table
+const withDelta = (value: number, reference: number, digits: number) => {
+  const delta = value - reference;
+  const sign = delta >= 0 ? '+' : '';
+  return `${value.toFixed(digits)} (${sign}${delta.toFixed(digits)})`;
+};
+
+const EnvironmentPanel: React.FC<EnvironmentPanelProps> = ({
+  environment,
+  setEnvironment,
+  current,
+  reference,
+}) => {
+  const update = (changes: Partial<EnvironmentSettings>) =>
+    setEnvironment({ ...environment, ...changes });
+
+  const usesBarometer = environment.pressureSource === 'barometer';
+  const selectedPark = BALLPARKS.find(
+    (park) => !usesBarometer && park.elevationFt === environment.elevationFt
+  );
+
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Environment</h4>
+      <div>
+        <label>Ballpark: </label>
+        <select
+          value={selectedPark?.name ?? ''}
+          onChange={(e) => {
+            const park = BALLPARKS.find((p) => p.name === e.target.value);
+            if (park) update({ pressureSource: 'elevation', elevationFt: park.elevationFt });
+          }}
+        >
+          <option value="" disabled>
+            Custom
+          </option>
+          {BALLPARKS.map((park) => (
+            <option key={park.name} value={park.name}>
+              {park.name} ({park.elevationFt} ft)
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label>Temperature (°F): {environment.temperatureF}</label>
+        <input
+          type="range"
+          min="30"
+          max="110"
+          step="1"
+          value={environment.temperatureF}
+          onChange={(e) => update({ temperatureF: parseFloat(e.target.value) })}
+          style={{ width: '100%' }}
+        />
+      </div>
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <button
+          style={toggleButtonStyle(!usesBarometer)}
+          onClick={() => update({ pressureSource: 'elevation' })}
+        >
+          Elevation
+        </button>
+        <button
+          style={toggleButtonStyle(usesBarometer)}
+          onClick={() => update({ pressureSource: 'barometer' })}
+        >
+          Barometer
+        </button>
+      </div>
+      {usesBarometer ? (
+        <div>
+          <label>Station Pressure (inHg): {environment.pressureInHg.toFixed(2)}</label>
+          <input
+            type="range"
+            min="23"
+            max="31"
+            step="0.01"
+            value={environment.pressureInHg}
+            onChange={(e) => update({ pressureInHg: parseFloat(e.target.value) })}
+            style={{ width: '100%' }}
+          />
+        </div>
+      ) : (
+        <div>
+          <label>Elevation (ft): {environment.elevationFt}</label>
+          <input
+            type="range"
+            min="0"
+            max="6000"
+            step="10"
+            value={environment.elevationFt}
+            onChange={(e) => update({ elevationFt: parseFloat(e.target.value) })}
+            style={{ width: '100%' }}
+          />
+        </div>
+      )}
+      <div>
+        <label>Relative Humidity (%): {environment.humidity}</label>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          step="1"
+          value={environment.humidity}
+          onChange={(e) => update({ humidity: parseFloat(e.target.value) })}
+          style={{ width: '100%' }}
+        />
+      </div>
+      <div>
+        <label>Wind Speed (MPH): {environment.windSpeedMph}</label>
+        <input
+          type="range"
+          min="0"
+          max="30"
+          step="1"
+          value={environment.windSpeedMph}
+          onChange={(e) => update({ windSpeedMph: parseFloat(e.target.value) })}
+          style={{ width: '100%' }}
+        />
+      </div>
+      <div>
+        {/* 0 = blowing out to center, 180 = blowing in from center */}
+        <label>Wind Toward (deg, 0 = out to CF): {environment.windDirection}</label>
+        <input
+          type="range"
+          min="0"
+          max="359"
+          step="1"
+          value={environment.windDirection}
+          onChange={(e) => update({ windDirection: parseFloat(e.target.value) })}
+          style={{ width: '100%' }}
+        />
+      </div>
+      {/* Comparison with the same pitch at sea level */}
+      <table style={{ fontSize: '12px', width: '100%' }}>
+        <thead>
+          <tr>
+            <th></th>
+            <th>Here (Δ)</th>
+            <th>Sea Level</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>Air (kg/m³)</td>
+            <td>{withDelta(current.airDensity, reference.airDensity, 3)}</td>
+            <td>{reference.airDensity.toFixed(3)}</td>
+          </tr>
+          <tr>
+            <td>IVB (in)</td>
+            <td>{withDelta(current.ivb, reference.ivb, 1)}</td>
+            <td>{reference.ivb.toFixed(1)}</td>
+          </tr>
+          <tr>
+            <td>HB (in)</td>
+            <td>{withDelta(current.hb, reference.hb, 1)}</td>
+            <td>{reference.hb.toFixed(1)}</td>
+          </tr>
+          <tr>
+            <td>Plate (MPH)</td>
+            <td>{withDelta(current.plateSpeedMPH, reference.plateSpeedMPH, 1)}</td>
+            <td>{reference.plateSpeedMPH.toFixed(1)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default EnvironmentPanel;
@@ -0,0 +1,132 @@
+import React, { useEffect, useMemo } from "react";
+import { Line } from "@react-three/drei";
+import * as THREE from "three";
+import { moundHeightAt } from "../utils/field";
+import {
+  PLATE_WIDTH,
+  PLATE_TOTAL_DEPTH,
+  PLATE_BACK_POINT_Z,
+  RUBBER_Z,
+  RUBBER_WIDTH,
+  RUBBER_DEPTH,
+  MOUND_HEIGHT,
+  MOUND_CENTER_Z,
+  MOUND_RADIUS,
+  HOME_DIRT_RADIUS,
+  BATTERS_BOX_WIDTH,
+  BATTERS_BOX_LENGTH,
+  BATTERS_BOX_GAP,
+  CATCHERS_BOX_WIDTH,
+  CATCHERS_BOX_LENGTH,
+} from "../constants";
+
+const GRASS_COLOR = "lightgreen";
+const DIRT_COLOR = "#c49a6c";
+const CHALK_COLOR = "white";
+const CHALK_HEIGHT = 0.004; // Lines sit just above the dirt to avoid z-fighting
+const FOUL_LINE_LENGTH = 35; // meters; out to the edge of the grass
+
+// A closed chalk rectangle on the ground between two corners
+const chalkRectangle = (x0: number, z0: number, x1: number, z1: number): [number, number, number][] => [
+  [x0, CHALK_HEIGHT, z0],
+  [x1, CHALK_HEIGHT, z0],
+  [x1, CHALK_HEIGHT, z1],
+  [x0, CHALK_HEIGHT, z1],
+  [x0, CHALK_HEIGHT, z0],
+];
+
+/**
+ * Regulation infield around the pitch: grass, the dirt circle at home with the
+ * batter's and catcher's boxes, foul lines, and the mound with the rubber.
+ */
+const FieldEnvironment: React.FC = () => {
+  // A flat disc over the mound circle, raised to the mound surface
+  const moundGeometry = useMemo(() => {
+    const geometry = new THREE.RingGeometry(0.001, MOUND_RADIUS, 64, 36).rotateX(-Math.PI / 2);
+    const positions = geometry.attributes.position;
+    for (let i = 0; i < positions.count; i++) {
+      positions.setY(i, moundHeightAt(positions.getX(i), positions.getZ(i) + MOUND_CENTER_Z));
+    }
+    geometry.computeVertexNormals();
+    return geometry;
+  }, []);
+  useEffect(() => () => moundGeometry.dispose(), [moundGeometry]);
+
+  // Batter's boxes are centered on the middle of the plate lengthwise
+  const plateMiddleZ = PLATE_TOTAL_DEPTH / 2;
+  const boxInner = PLATE_WIDTH / 2 + BATTERS_BOX_GAP;
+  const boxOuter = boxInner + BATTERS_BOX_WIDTH;
+  const boxFrontZ = plateMiddleZ - BATTERS_BOX_LENGTH / 2;
+  const boxBackZ = plateMiddleZ + BATTERS_BOX_LENGTH / 2;
+
+  // Catcher's box runs back from the rear of the batter's boxes
+  const catcherHalfWidth = CATCHERS_BOX_WIDTH / 2;
+  const catcherBackZ = boxBackZ + CATCHERS_BOX_LENGTH;
+
+  // Foul lines leave the back point of the plate at 45 degrees towards the field
+  const foulLineEnd = FOUL_LINE_LENGTH / Math.SQRT2;
+
+  return (
+    <>
+      {/* Grass, running a little behind the plate for the catcher's box */}
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, -45]} receiveShadow>
+        <planeGeometry args={[50, 110]} />
+        <meshStandardMaterial color={GRASS_COLOR} />
+      </mesh>
+
+      {/* Dirt circle around home plate */}
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.001, PLATE_BACK_POINT_Z]}>
+        <circleGeometry args={[HOME_DIRT_RADIUS, 64]} />
+        <meshStandardMaterial color={DIRT_COLOR} />
+      </mesh>
+
+      {/* Batter's boxes */}
+      {[-1, 1].map((side) => (
+        <Line
+          key={side}
+          points={chalkRectangle(side * boxInner, boxFrontZ, side * boxOuter, boxBackZ)}
+          color={CHALK_COLOR}
+          lineWidth={2}
+        />
+      ))}
+
+      {/* Catcher's box: open at the front where it meets the batter's boxes */}
+      <Line
+        points={[
+          [-catcherHalfWidth, CHALK_HEIGHT, boxBackZ],
+          [-catcherHalfWidth, CHALK_HEIGHT, catcherBackZ],
+          [catcherHalfWidth, CHALK_HEIGHT, catcherBackZ],
+          [catcherHalfWidth, CHALK_HEIGHT, boxBackZ],
+        ]}
+        color={CHALK_COLOR}
+        lineWidth={2}
+      />
+
+      {/* Foul lines */}
+      {[-1, 1].map((side) => (
+        <Line
+          key={side}
+          points={[
+            [0, CHALK_HEIGHT, PLATE_BACK_POINT_Z],
+            [side * foulLineEnd, CHALK_HEIGHT, PLATE_BACK_POINT_Z - foulLineEnd],
+          ]}
+          color={CHALK_COLOR}
+          lineWidth={2}
+        />
+      ))}
+
+      {/* Mound */}
+      <mesh position={[0, 0, MOUND_CENTER_Z]} geometry={moundGeometry}>
+        <meshStandardMaterial color={DIRT_COLOR} />
+      </mesh>
+
+      {/* Pitcher's rubber: the front edge is 60.5 ft from the back of the plate */}
+      <mesh position={[0, MOUND_HEIGHT + 0.01, RUBBER_Z - RUBBER_DEPTH / 2]}>
+        <boxGeometry args={[RUBBER_WIDTH, 0.02, RUBBER_DEPTH]} />
+        <meshStandardMaterial color={CHALK_COLOR} />
+      </mesh>
+    </>
+  );
+};
+
+export default FieldEnvironment;
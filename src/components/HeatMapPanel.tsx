@@ -0,0 +1,62 @@
+import React from 'react';
+import { HeatMapSettings, HeatMapSource } from '../utils/heatMap';
+import { PITCH_TYPES, PitchTypeCode } from '../utils/pitchLibrary';
+import { PANEL_STYLE } from '../styles';
+
+interface HeatMapPanelProps {
+  settings: HeatMapSettings;
+  setSettings: (settings: HeatMapSettings) => void;
+  historyCount: number;
+  importedCount: number;
+  mappedCount: number; // Pitches left after the pitch type filter
+}
+
+const HeatMapPanel: React.FC<HeatMapPanelProps> = ({
+  settings,
+  setSettings,
+  historyCount,
+  importedCount,
+  mappedCount,
+}) => {
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Location Heat Map</h4>
+      <div>
+        <label>Pitches: </label>
+        <select
+          value={settings.source}
+          onChange={(e) => setSettings({ ...settings, source: e.target.value as HeatMapSource })}
+        >
+          <option value="off">Off</option>
+          <option value="history">History ({historyCount})</option>
+          <option value="imported">Imported ({importedCount})</option>
+        </select>
+      </div>
+      {settings.source !== 'off' && (
+        <>
+          <div>
+            <label>Pitch Type: </label>
+            <select
+              value={settings.pitchType}
+              onChange={(e) =>
+                setSettings({ ...settings, pitchType: e.target.value as PitchTypeCode | 'all' })
+              }
+            >
+              <option value="all">All</option>
+              {PITCH_TYPES.map((info) => (
+                <option key={info.code} value={info.code}>
+                  {info.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div style={{ fontSize: '13px', color: '#aaa' }}>
+            {mappedCount === 0 ? 'No pitches to map' : `Mapping ${mappedCount} pitches`}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HeatMapPanel;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { ThrownPitch } from '../utils/pitchHistory';
+import { PITCH_TYPES, pitchTypeColor } from '../utils/pitchLibrary';
+import { PANEL_STYLE } from '../styles';
+
+interface HistoryPanelProps {
+  pitches: ThrownPitch[]; // Oldest first
+  maxHistory: number;
+  setMaxHistory: (value: number) => void;
+  onClear: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ pitches, maxHistory, setMaxHistory, onClear }) => {
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Pitch Trails</h4>
+      <div>
+        <label>Pitches kept: {maxHistory}</label>
+        <input
+          type="range"
+          min="1"
+          max="20"
+          step="1"
+          value={maxHistory}
+          onChange={(e) => setMaxHistory(parseInt(e.target.value, 10))}
+          style={{ width: '100%' }}
+        />
+      </div>
+      {/* Newest first, colored like the trails */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '12px' }}>
+        {pitches.length === 0 && <div>No pitches thrown yet.</div>}
+        {[...pitches].reverse().map((pitch) => (
+          <div key={pitch.id} style={{ color: pitchTypeColor(pitch.pitchType) }}>
+            {PITCH_TYPES.find((info) => info.code === pitch.pitchType)?.name ?? 'Unlabeled'}{' '}
+            {pitch.velocity.toFixed(1)} mph, {pitch.ivb.toFixed(1)}" / {pitch.hb.toFixed(1)}"
+          </div>
+        ))}
+      </div>
+      <button onClick={onClear} disabled={pitches.length === 0}>
+        Clear Trails
+      </button>
+    </div>
+  );
+};
+
+export default HistoryPanel;
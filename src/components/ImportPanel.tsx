@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ImportedPitch,
+  ImportResult,
+  importPitchCsv,
+  formatCount,
+} from '../utils/pitchImport';
+import { PANEL_STYLE } from '../styles';
+
+interface ImportPanelProps {
+  pitches: ImportedPitch[];
+  onImport: (pitches: ImportedPitch[]) => void;
+  onSelect: (pitch: ImportedPitch) => void; // Load the pitch into the scene and throw it
+}
+
+const ALL = '';
+const MAX_SKIPPED_SHOWN = 10;
+
+// Sorted distinct values for a filter dropdown
+const distinct = (values: string[]) => Array.from(new Set(values)).sort();
+
+const FilterSelect: React.FC<{
+  label: string;
+  value: string;
+  options: string[];
+  onChange: (value: string) => void;
+}> = ({ label, value, options, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value)} style={{ flex: 1, minWidth: 0 }}>
+    <option value={ALL}>All {label}</option>
+    {options.map((option) => (
+      <option key={option} value={option}>
+        {option}
+      </option>
+    ))}
+  </select>
+);
+
+const ImportPanel: React.FC<ImportPanelProps> = ({ pitches, onImport, onSelect }) => {
+  const [report, setReport] = useState<ImportResult | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+  const [readError, setReadError] = useState<string | null>(null);
+  const [pitcherFilter, setPitcherFilter] = useState<string>(ALL);
+  const [typeFilter, setTypeFilter] = useState<string>(ALL);
+  const [countFilter, setCountFilter] = useState<string>(ALL);
+  const [resultFilter, setResultFilter] = useState<string>(ALL);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const handleFile = async (file: File) => {
+    let result: ImportResult;
+    try {
+      result = importPitchCsv(await file.text());
+    } catch (error) {
+      setReport(null);
+      setReadError(`${file.name}: ${error instanceof Error ? error.message : 'could not read file'}`);
+      return;
+    }
+    setReadError(null);
+    setFileName(file.name);
+    setReport(result);
+    setSelectedId(null);
+    setPitcherFilter(ALL);
+    setTypeFilter(ALL);
+    setCountFilter(ALL);
+    setResultFilter(ALL);
+    onImport(result.pitches);
+  };
+
+  const options = useMemo(
+    () => ({
+      pitchers: distinct(pitches.map((p) => p.pitcher)),
+      types: distinct(pitches.map((p) => p.pitchType)),
+      counts: distinct(pitches.map(formatCount)),
+      results: distinct(pitches.map((p) => p.result).filter((r) => r !== '')),
+    }),
+    [pitches]
+  );
+
+  const filtered = useMemo(
+    () =>
+      pitches.filter(
+        (p) =>
+          (pitcherFilter === ALL || p.pitcher === pitcherFilter) &&
+          (typeFilter === ALL || p.pitchType === typeFilter) &&
+          (countFilter === ALL || formatCount(p) === countFilter) &&
+          (resultFilter === ALL || p.result === resultFilter)
+      ),
+    [pitches, pitcherFilter, typeFilter, countFilter, resultFilter]
+  );
+
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Import Pitches (CSV)</h4>
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = ''; // Allow re-importing the same file
+        }}
+      />
+      {readError && <div style={{ color: '#ff8080', fontSize: '12px' }}>{readError}</div>}
+      {report && (
+        <div style={{ fontSize: '12px' }}>
+          {report.source === null ? (
+            <span style={{ color: '#ff8080' }}>
+              {fileName}: columns not recognized as a Savant or Trackman export.
+            </span>
+          ) : (
+            <>
+              {fileName}: {report.pitches.length} pitches ({report.source})
+              {report.skipped.length > 0 && (
+                <div style={{ color: '#ffb080' }}>
+                  {report.skipped.length} rows skipped:
+                  {report.skipped.slice(0, MAX_SKIPPED_SHOWN).map((row) => (
+                    <div key={row.line}>
+                      Line {row.line}: {row.reason}
+                    </div>
+                  ))}
+                  {report.skipped.length > MAX_SKIPPED_SHOWN && <div>…</div>}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+      {pitches.length > 0 && (
+        <>
+          <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+            <FilterSelect label="pitchers" value={pitcherFilter} options={options.pitchers} onChange={setPitcherFilter} />
+            <FilterSelect label="types" value={typeFilter} options={options.types} onChange={setTypeFilter} />
+          </div>
+          <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+            <FilterSelect label="counts" value={countFilter} options={options.counts} onChange={setCountFilter} />
+            <FilterSelect label="results" value={resultFilter} options={options.results} onChange={setResultFilter} />
+          </div>
+          <div style={{ maxHeight: '200px', overflowY: 'auto' }}>
+            <table style={{ fontSize: '11px', width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th>Pitcher</th>
+                  <th>Type</th>
+                  <th>Count</th>
+                  <th>MPH</th>
+                  <th>Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map((pitch) => (
+                  <tr
+                    key={pitch.id}
+                    onClick={() => {
+                      setSelectedId(pitch.id);
+                      onSelect(pitch);
+                    }}
+                    style={{
+                      cursor: 'pointer',
+                      background: pitch.id === selectedId ? 'rgba(100,108,255,0.5)' : undefined,
+                    }}
+                  >
+                    <td>{pitch.pitcher}</td>
+                    <td>{pitch.pitchType}</td>
+                    <td>{formatCount(pitch)}</td>
+                    <td>{pitch.velocity.toFixed(1)}</td>
+                    <td>{pitch.result}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div style={{ fontSize: '11px' }}>
+            Showing {filtered.length} of {pitches.length}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImportPanel;
@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import {
+  PITCH_TYPES,
+  PitchTypeCode,
+  PitcherProfile,
+  PitchSelection,
+  builtInSelection,
+  createId,
+  parseProfiles,
+  pitchTypeColor,
+} from '../utils/pitchLibrary';
+import { CommandSettings } from '../utils/command';
+import { Handedness, ReleaseSettings } from '../utils/release';
+import { downloadText } from '../utils/download';
+import { PANEL_STYLE } from '../styles';
+
+interface LibraryPanelProps {
+  profiles: PitcherProfile[];
+  saveProfile: (profile: PitcherProfile) => void;
+  deleteProfile: (id: string) => void;
+  importProfiles: (profiles: PitcherProfile[]) => void;
+  selectedProfileId: string | null;
+  onSelectProfile: (profile: PitcherProfile | null) => void; // Also loads the profile's command
+  // The pitch and command currently in the controls, for saving into a profile
+  current: {
+    velocity: number;
+    ivb: number;
+    hb: number;
+    handedness: Handedness;
+    release: ReleaseSettings;
+    command: CommandSettings;
+  };
+  onSelect: (selection: PitchSelection) => void; // Fill the controls with a pitch
+}
+
+const chipStyle = (color: string): React.CSSProperties => ({
+  display: 'inline-block',
+  width: '10px',
+  height: '10px',
+  borderRadius: '50%',
+  background: color,
+  marginRight: '4px',
+});
+
+const smallButton: React.CSSProperties = { padding: '2px 6px', fontSize: '12px' };
+
+const typeName = (code: PitchTypeCode) =>
+  PITCH_TYPES.find((info) => info.code === code)?.name ?? code;
+
+const LibraryPanel: React.FC<LibraryPanelProps> = ({
+  profiles,
+  saveProfile,
+  deleteProfile,
+  importProfiles,
+  selectedProfileId,
+  onSelectProfile,
+  current,
+  onSelect,
+}) => {
+  const [newProfileName, setNewProfileName] = useState<string>('');
+  const [saveType, setSaveType] = useState<PitchTypeCode>('FF');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const profile = profiles.find((p) => p.id === selectedProfileId) ?? null;
+
+  const handleCreateProfile = () => {
+    const name = newProfileName.trim();
+    if (!name) return;
+    const created: PitcherProfile = {
+      id: createId(),
+      name,
+      handedness: current.handedness,
+      arsenal: [],
+      command: current.command,
+    };
+    saveProfile(created);
+    onSelectProfile(created);
+    setNewProfileName('');
+  };
+
+  const handleSaveCurrentPitch = () => {
+    if (!profile) return;
+    // The profile keeps its hand; a pitch set up for the other hand is mirrored into it
+    const mirror = current.handedness === profile.handedness ? 1 : -1;
+    const pitch = {
+      id: createId(),
+      type: saveType,
+      velocity: current.velocity,
+      ivb: current.ivb,
+      hb: mirror * current.hb,
+      release: { ...current.release, sideFt: mirror * current.release.sideFt },
+    };
+    // One pitch per type; saving again replaces it. The command is kept as it is now
+    const arsenal = [...profile.arsenal.filter((p) => p.type !== saveType), pitch];
+    saveProfile({ ...profile, arsenal, command: current.command });
+  };
+
+  const handleExport = () =>
+    downloadText(JSON.stringify(profiles, null, 2), 'pitcher-profiles.json', 'application/json');
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseProfiles(JSON.parse(await file.text()));
+      importProfiles(imported);
+      setImportError(null);
+      if (imported.length > 0) onSelectProfile(imported[0]);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not read file');
+    }
+  };
+
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Pitch Library</h4>
+      {/* Built-in pitch types, mirrored for the current hand */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+        {PITCH_TYPES.map((info) => (
+          <button
+            key={info.code}
+            style={smallButton}
+            title={info.name}
+            onClick={() => onSelect(builtInSelection(info, current.handedness))}
+          >
+            <span style={chipStyle(info.color)} />
+            {info.code}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <select
+          value={selectedProfileId ?? ''}
+          onChange={(e) => onSelectProfile(profiles.find((p) => p.id === e.target.value) ?? null)}
+          style={{ flex: 1, minWidth: 0 }}
+        >
+          <option value="">No profile</option>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name} ({p.handedness}HP)
+            </option>
+          ))}
+        </select>
+        {profile && (
+          <button
+            style={smallButton}
+            onClick={() => {
+              deleteProfile(profile.id);
+              onSelectProfile(null);
+            }}
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <input
+          type="text"
+          placeholder="New pitcher name"
+          value={newProfileName}
+          onChange={(e) => setNewProfileName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreateProfile()}
+          style={{ flex: 1, minWidth: 0 }}
+        />
+        <button style={smallButton} onClick={handleCreateProfile} disabled={!newProfileName.trim()}>
+          Add
+        </button>
+      </div>
+
+      {profile && (
+        <>
+          {profile.arsenal.length === 0 && (
+            <div style={{ fontSize: '12px' }}>No pitches saved yet.</div>
+          )}
+          {profile.arsenal.map((pitch) => (
+            <div key={pitch.id} style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px' }}>
+              <button
+                style={{ ...smallButton, flex: 1, textAlign: 'left' }}
+                onClick={() =>
+                  onSelect({
+                    pitchType: pitch.type,
+                    velocity: pitch.velocity,
+                    ivb: pitch.ivb,
+                    hb: pitch.hb,
+                    handedness: profile.handedness,
+                    release: pitch.release,
+                  })
+                }
+              >
+                <span style={chipStyle(pitchTypeColor(pitch.type))} />
+                {typeName(pitch.type)} {pitch.velocity.toFixed(1)} mph, {pitch.ivb.toFixed(1)}" / {pitch.hb.toFixed(1)}"
+              </button>
+              <button
+                style={smallButton}
+                title="Remove from arsenal"
+                onClick={() =>
+                  saveProfile({ ...profile, arsenal: profile.arsenal.filter((p) => p.id !== pitch.id) })
+                }
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: '4px' }}>
+            <select
+              value={saveType}
+              onChange={(e) => setSaveType(e.target.value as PitchTypeCode)}
+              style={{ flex: 1, minWidth: 0 }}
+            >
+              {PITCH_TYPES.map((info) => (
+                <option key={info.code} value={info.code}>
+                  {info.name}
+                </option>
+              ))}
+            </select>
+            <button
+              style={smallButton}
+              onClick={handleSaveCurrentPitch}
+              title="Save the pitch in the controls, and the current command settings"
+            >
+              Save current
+            </button>
+          </div>
+        </>
+      )}
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <button style={{ ...smallButton, flex: 1 }} onClick={handleExport} disabled={profiles.length === 0}>
+          Export JSON
+        </button>
+        <label style={{ ...smallButton, flex: 1, cursor: 'pointer', border: '1px solid #888', borderRadius: '8px' }}>
+          Import JSON
+          <input
+            type="file"
+            accept=".json,application/json"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      {importError && <div style={{ color: '#ff8080', fontSize: '12px' }}>{importError}</div>}
+    </div>
+  );
+};
+
+export default LibraryPanel;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { PitchMetrics } from '../utils/metrics';
+import { PANEL_STYLE } from '../styles';
+
+interface MetricsPanelProps {
+  metrics: PitchMetrics;
+}
+
+const formatAngle = (degrees: number) => `${degrees.toFixed(1)}°`;
+
+const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics }) => {
+  const rows: [string, string][] = [
+    ['Release Speed', `${metrics.releaseSpeedMPH.toFixed(1)} mph`],
+    ['Plate Speed', `${metrics.plateSpeedMPH.toFixed(1)} mph`],
+    ['Perceived Velo', `${metrics.perceivedVelocityMPH.toFixed(1)} mph`],
+    ['Extension', `${metrics.extensionFt.toFixed(1)} ft`],
+    ['Time to Plate', `${metrics.timeToPlate.toFixed(3)} s`],
+    ['Vert. Release Angle', formatAngle(metrics.verticalReleaseAngle)],
+    ['Horz. Release Angle', formatAngle(metrics.horizontalReleaseAngle)],
+    ['VAA (front of plate)', formatAngle(metrics.verticalApproachAngle)],
+    ['HAA (front of plate)', formatAngle(metrics.horizontalApproachAngle)],
+  ];
+
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Pitch Metrics</h4>
+      <table style={{ fontSize: '12px', width: '100%' }}>
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label}>
+              <td style={{ textAlign: 'left' }}>{label}</td>
+              <td style={{ textAlign: 'right' }}>{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default MetricsPanel;
@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import { ThrownPitch } from '../utils/pitchHistory';
+import { ArsenalPitch, PITCH_TYPES, PitchTypeCode, pitchTypeColor } from '../utils/pitchLibrary';
+import { leagueMovement } from '../utils/movement';
+import { Handedness } from '../utils/release';
+import { PANEL_STYLE, toggleButtonStyle } from '../styles';
+
+interface MovementChartProps {
+  ivb: number; // Current pitch, inches
+  hb: number;
+  pitchType: PitchTypeCode | null;
+  onChange: (ivb: number, hb: number) => void; // Called while the point is dragged
+  handedness: Handedness; // Mirrors the league ellipses
+  history: ThrownPitch[];
+  arsenal: ArsenalPitch[]; // From the selected pitcher profile
+}
+
+type DotSource = 'history' | 'arsenal';
+
+const SIZE = 220; // pixels, square
+const RANGE = 25; // inches either side of zero, matching the break sliders
+const GRID_STEP = 5;
+const toPx = (inches: number) => ((inches + RANGE) / (2 * RANGE)) * SIZE;
+const toInches = (px: number) => Math.round(((px / SIZE) * 2 * RANGE - RANGE) * 10) / 10;
+const clamp = (value: number) => Math.max(-RANGE, Math.min(RANGE, value));
+
+/**
+ * The pitch-design view: HB across, IVB up, with league-average ellipses (one
+ * standard deviation) for each pitch type. Drag the white point to set the break.
+ */
+const MovementChart: React.FC<MovementChartProps> = ({
+  ivb,
+  hb,
+  pitchType,
+  onChange,
+  handedness,
+  history,
+  arsenal,
+}) => {
+  const [dotSource, setDotSource] = useState<DotSource>('history');
+  const [isDragging, setIsDragging] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const moveTo = (clientX: number, clientY: number) => {
+    if (!svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const x = ((clientX - rect.left) / rect.width) * SIZE;
+    const y = ((clientY - rect.top) / rect.height) * SIZE;
+    onChange(clamp(toInches(SIZE - y)), clamp(toInches(x)));
+  };
+
+  const dots =
+    dotSource === 'history'
+      ? history.map((pitch) => ({ key: `h${pitch.id}`, ivb: pitch.ivb, hb: pitch.hb, type: pitch.pitchType }))
+      : arsenal.map((pitch) => ({ key: pitch.id, ivb: pitch.ivb, hb: pitch.hb, type: pitch.type }));
+  const ticks = Array.from({ length: (2 * RANGE) / GRID_STEP + 1 }, (_, i) => -RANGE + i * GRID_STEP);
+
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Movement</h4>
+      <div style={{ display: 'flex', gap: '5px' }}>
+        <button style={toggleButtonStyle(dotSource === 'history')} onClick={() => setDotSource('history')}>
+          History
+        </button>
+        <button style={toggleButtonStyle(dotSource === 'arsenal')} onClick={() => setDotSource('arsenal')}>
+          Arsenal
+        </button>
+      </div>
+      <svg
+        ref={svgRef}
+        width={SIZE}
+        height={SIZE}
+        style={{ background: '#1a1a1a', borderRadius: '4px', cursor: 'crosshair', touchAction: 'none' }}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setIsDragging(true);
+          moveTo(e.clientX, e.clientY);
+        }}
+        onPointerMove={(e) => {
+          if (isDragging) moveTo(e.clientX, e.clientY);
+        }}
+        onPointerUp={() => setIsDragging(false)}
+        onPointerCancel={() => setIsDragging(false)}
+      >
+        {ticks.map((tick) => (
+          <g key={tick} stroke={tick === 0 ? '#888' : '#333'} strokeWidth={1}>
+            <line x1={toPx(tick)} y1={0} x2={toPx(tick)} y2={SIZE} />
+            <line x1={0} y1={toPx(-tick)} x2={SIZE} y2={toPx(-tick)} />
+          </g>
+        ))}
+        {leagueMovement(handedness).map((league) => (
+          <ellipse
+            key={league.type}
+            cx={toPx(league.hb)}
+            cy={toPx(-league.ivb)}
+            rx={(league.hbSd / (2 * RANGE)) * SIZE}
+            ry={(league.ivbSd / (2 * RANGE)) * SIZE}
+            fill={pitchTypeColor(league.type)}
+            fillOpacity={0.15}
+            stroke={pitchTypeColor(league.type)}
+            strokeOpacity={0.6}
+          >
+            <title>{`${PITCH_TYPES.find((info) => info.code === league.type)?.name} (league)`}</title>
+          </ellipse>
+        ))}
+        {dots.map((dot) => (
+          <circle
+            key={dot.key}
+            cx={toPx(dot.hb)}
+            cy={toPx(-dot.ivb)}
+            r={3.5}
+            fill={pitchTypeColor(dot.type)}
+            stroke="#000"
+            strokeWidth={0.5}
+          />
+        ))}
+        <circle
+          cx={toPx(clamp(hb))}
+          cy={toPx(-clamp(ivb))}
+          r={6}
+          fill={pitchTypeColor(pitchType)}
+          stroke="white"
+          strokeWidth={2}
+          style={{ cursor: 'grab' }}
+        />
+        <text x={SIZE - 4} y={toPx(0) - 4} fill="#888" fontSize={10} textAnchor="end">
+          HB
+        </text>
+        <text x={toPx(0) + 4} y={10} fill="#888" fontSize={10}>
+          IVB
+        </text>
+      </svg>
+      <div style={{ fontSize: '12px' }}>
+        IVB {ivb.toFixed(1)}" / HB {hb.toFixed(1)}"
+      </div>
+    </div>
+  );
+};
+
+export default MovementChart;
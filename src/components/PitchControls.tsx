@@ -1,42 +1,106 @@
-import React from 'react';
+import React, { useState } from 'react';
+import {
+  PitchInputMode,
+  parseTilt,
+  formatTilt,
+  spinEfficiency,
+  gyroForEfficiency,
+} from '../utils/spin';
+import { PITCH_TYPES, PitchTypeCode } from '../utils/pitchLibrary';
+import { SolverSuggestion, TrajectoryWarning } from '../utils/trajectory';
+import { METERS_TO_FEET } from '../constants';
+import { PANEL_STYLE, toggleButtonStyle } from '../styles';
 
 // Define the props the component will accept
 interface PitchControlsProps {
+  pitchType: PitchTypeCode | null; // Label used to color trails; null = unlabeled
+  setPitchType: (value: PitchTypeCode | null) => void;
   velocity: number;
   setVelocity: (value: number) => void;
+  // Which inputs are being edited; the other set shows derived values
+  inputMode: PitchInputMode;
+  setInputMode: (mode: PitchInputMode) => void;
   ivb: number;
   setIvb: (value: number) => void;
   hb: number;
   setHb: (value: number) => void;
+  spinRate: number; // rpm
+  setSpinRate: (value: number) => void;
+  spinTilt: number; // degrees clockwise from 12:00
+  setSpinTilt: (value: number) => void;
+  gyroAngle: number; // degrees
+  setGyroAngle: (value: number) => void;
   // Target props are removed - handled by TargetPad
   onThrowPitch: () => void; // Function to call when the button is clicked
+  // Solver problems with the current pitch, and ways to fix them
+  warnings: TrajectoryWarning[];
+  targetMissInches: number; // 0 when the pitch reaches the target
+  suggestion: SolverSuggestion | null; // Found by onFindFixes
+  onFindFixes: (() => void) | null; // null when there's nothing to search for
+  onAimAt: (target: { x: number; y: number }) => void;
 }
 
+const WARNING_STYLE: React.CSSProperties = {
+  background: 'rgba(255, 170, 0, 0.15)',
+  border: '1px solid #ffaa00',
+  borderRadius: '4px',
+  padding: '6px 8px',
+  fontSize: '12px',
+  textAlign: 'left',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '4px',
+};
+
 const PitchControls: React.FC<PitchControlsProps> = ({
+  pitchType, setPitchType,
   velocity, setVelocity,
+  inputMode, setInputMode,
   ivb, setIvb,
   hb, setHb,
+  spinRate, setSpinRate,
+  spinTilt, setSpinTilt,
+  gyroAngle, setGyroAngle,
   // Removed target props from destructuring
-  onThrowPitch
+  onThrowPitch,
+  warnings,
+  targetMissInches,
+  suggestion,
+  onFindFixes,
+  onAimAt,
 }) => {
+  // Text being typed into the tilt field; null shows the formatted tilt prop
+  const [tiltDraft, setTiltDraft] = useState<string | null>(null);
+
+  const isSpinMode = inputMode === 'spin';
+  const suggestedVelocity = suggestion?.velocityMPH ?? null;
+  const suggestedTarget = suggestion?.target ?? null;
+  const suggestedBreak = suggestion?.break ?? null;
+  const efficiency = spinEfficiency(gyroAngle) * 100;
+
+  const handleTiltChange = (text: string) => {
+    setTiltDraft(text);
+    const parsed = parseTilt(text);
+    if (parsed !== null) setSpinTilt(parsed);
+  };
+
   return (
-    <div
-      style={{
-        position: 'absolute',
-        top: 10,
-        left: 10,
-        zIndex: 1,
-        background: 'rgba(0,0,0,0.7)',
-        padding: '15px',
-        borderRadius: '8px',
-        color: 'white',
-        display: 'flex',
-        flexDirection: 'column',
-        gap: '10px',
-        width: '250px'
-      }}
-    >
+    <div style={PANEL_STYLE}>
       <h4>Pitch Controls</h4>
+      <div>
+        <label>Pitch Type: </label>
+        <select
+          value={pitchType ?? ''}
+          onChange={(e) => setPitchType((e.target.value as PitchTypeCode) || null)}
+        >
+          <option value="">Unlabeled</option>
+          {PITCH_TYPES.map((info) => (
+            <option key={info.code} value={info.code}>
+              {info.name}
+            </option>
+          ))}
+        </select>
+      </div>
       <div>
         <label>Velocity (MPH): {velocity}</label>
         <input
@@ -49,33 +113,134 @@ const PitchControls: React.FC<PitchControlsProps> = ({
           style={{ width: '100%' }}
         />
       </div>
-      <div>
-        <label>Induced Vertical Break (IVB, inches): {ivb}</label>
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <button style={toggleButtonStyle(!isSpinMode)} onClick={() => setInputMode('break')}>
+          Break
+        </button>
+        <button style={toggleButtonStyle(isSpinMode)} onClick={() => setInputMode('spin')}>
+          Spin
+        </button>
+      </div>
+      <div style={{ opacity: isSpinMode ? 0.6 : 1 }}>
+        <label>Induced Vertical Break (IVB, inches): {ivb.toFixed(1)}</label>
         <input
           type="range"
           min="-25" // Allow negative for curveballs etc.
           max="25"
           step="0.1"
           value={ivb}
+          disabled={isSpinMode}
           onChange={(e) => setIvb(parseFloat(e.target.value))}
           style={{ width: '100%' }}
         />
       </div>
-      <div>
-        <label>Horizontal Break (inches): {hb}</label>
+      <div style={{ opacity: isSpinMode ? 0.6 : 1 }}>
+        <label>Horizontal Break (inches): {hb.toFixed(1)}</label>
         <input
           type="range"
           min="-25"
           max="25"
           step="0.1"
           value={hb}
+          disabled={isSpinMode}
           onChange={(e) => setHb(parseFloat(e.target.value))}
           style={{ width: '100%' }}
         />
       </div>
+      {/* Spin inputs - derived from the break while in break mode */}
+      <div style={{ opacity: isSpinMode ? 1 : 0.6 }}>
+        <label>Spin Rate (RPM): {Math.round(spinRate)}</label>
+        <input
+          type="range"
+          min="0"
+          max="3500"
+          step="10"
+          value={spinRate}
+          disabled={!isSpinMode}
+          onChange={(e) => setSpinRate(parseFloat(e.target.value))}
+          style={{ width: '100%' }}
+        />
+      </div>
+      <div style={{ opacity: isSpinMode ? 1 : 0.6 }}>
+        <label>Tilt (h:mm, pitcher's view): </label>
+        <input
+          type="text"
+          value={isSpinMode && tiltDraft !== null ? tiltDraft : formatTilt(spinTilt)}
+          disabled={!isSpinMode}
+          onChange={(e) => handleTiltChange(e.target.value)}
+          onBlur={() => setTiltDraft(null)}
+          style={{
+            width: '60px',
+            borderColor: tiltDraft !== null && parseTilt(tiltDraft) === null ? 'red' : undefined,
+          }}
+        />
+      </div>
+      <div style={{ opacity: isSpinMode ? 1 : 0.6 }}>
+        <label>Spin Efficiency (%): {efficiency.toFixed(0)}</label>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          step="1"
+          value={efficiency}
+          disabled={!isSpinMode}
+          onChange={(e) => setGyroAngle(gyroForEfficiency(parseFloat(e.target.value) / 100, gyroAngle))}
+          style={{ width: '100%' }}
+        />
+      </div>
+      <div style={{ opacity: isSpinMode ? 1 : 0.6 }}>
+        <label>Gyro Angle (deg): {gyroAngle.toFixed(0)}</label>
+        <input
+          type="range"
+          min="-90"
+          max="90"
+          step="1"
+          value={gyroAngle}
+          disabled={!isSpinMode}
+          onChange={(e) => setGyroAngle(parseFloat(e.target.value))}
+          style={{ width: '100%' }}
+        />
+      </div>
       <button onClick={onThrowPitch} style={{marginTop: '10px'}}>
         Throw Pitch
       </button>
+      {warnings.length > 0 && (
+        <div style={WARNING_STYLE}>
+          <strong style={{ color: '#ffaa00' }}>
+            {targetMissInches > 0
+              ? `⚠ Misses the target by ${targetMissInches.toFixed(1)}"`
+              : '⚠ Solver warning'}
+          </strong>
+          {warnings.map((warning, index) => (
+            <div key={index}>{warning.message}</div>
+          ))}
+          {onFindFixes && !suggestion && <button onClick={onFindFixes}>Find fixes</button>}
+          {suggestion && suggestedVelocity === null && !suggestedTarget && !suggestedBreak && (
+            <div>No speed up to 105 mph reaches the target.</div>
+          )}
+          {suggestedVelocity !== null && (
+            <button onClick={() => setVelocity(suggestedVelocity)}>
+              Throw {suggestedVelocity.toFixed(1)} mph to reach it
+            </button>
+          )}
+          {suggestedTarget && (
+            <button onClick={() => onAimAt(suggestedTarget)}>
+              Aim at closest reachable ({(suggestedTarget.x * METERS_TO_FEET).toFixed(2)},{' '}
+              {(suggestedTarget.y * METERS_TO_FEET).toFixed(2)} ft)
+            </button>
+          )}
+          {suggestedBreak && (
+            <button
+              onClick={() => {
+                setIvb(Math.round(suggestedBreak.ivb * 10) / 10);
+                setHb(Math.round(suggestedBreak.hb * 10) / 10);
+              }}
+            >
+              Use closest break ({suggestedBreak.ivb.toFixed(1)}" / {suggestedBreak.hb.toFixed(1)}")
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,62 @@
+import React from "react";
+import { Line, Sphere } from "@react-three/drei";
+import { ThrownPitch } from "../utils/pitchHistory";
+import { pitchTypeColor } from "../utils/pitchLibrary";
+import { BALL_RADIUS } from "../constants";
+
+interface PitchTrailsProps {
+  pitches: ThrownPitch[]; // Oldest first
+  // Draw the newest pitch as the live trail; false while a new pitch is in flight
+  showLatestTrail: boolean;
+}
+
+const TRAIL_LINE_WIDTH = 3;
+const GHOST_LINE_WIDTH = 2;
+const GHOST_MAX_OPACITY = 0.5;
+const GHOST_MIN_OPACITY = 0.15;
+
+const PitchTrails: React.FC<PitchTrailsProps> = ({ pitches, showLatestTrail }) => {
+  const ghosts = showLatestTrail ? pitches.slice(0, -1) : pitches;
+  const latest = showLatestTrail ? pitches[pitches.length - 1] : undefined;
+
+  return (
+    <>
+      {/* Older pitches fade out the further back they are */}
+      {ghosts.map((pitch, index) => {
+        const age = ghosts.length - index; // 1 = most recent ghost
+        const opacity = Math.max(
+          GHOST_MIN_OPACITY,
+          GHOST_MAX_OPACITY * (1 - (age - 1) / Math.max(ghosts.length, 1))
+        );
+        const color = pitchTypeColor(pitch.pitchType);
+        const end = pitch.path[pitch.path.length - 1];
+        return (
+          <group key={pitch.id}>
+            <Line
+              points={pitch.path}
+              color={color}
+              lineWidth={GHOST_LINE_WIDTH}
+              transparent={true}
+              opacity={opacity}
+            />
+            <Sphere args={[BALL_RADIUS, 16, 16]} position={end}>
+              <meshStandardMaterial color={color} transparent={true} opacity={opacity} />
+            </Sphere>
+          </group>
+        );
+      })}
+
+      {/* Full path of the pitch that just landed */}
+      {latest && (
+        <Line
+          key={latest.id}
+          points={latest.path}
+          color={pitchTypeColor(latest.pitchType)}
+          lineWidth={TRAIL_LINE_WIDTH}
+        />
+      )}
+    </>
+  );
+};
+
+export default PitchTrails;
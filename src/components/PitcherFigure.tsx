@@ -0,0 +1,82 @@
+import React from "react";
+import * as THREE from "three";
+import { FEET_TO_METERS, RUBBER_Z } from "../constants";
+import { Handedness } from "../utils/release";
+import { moundHeightAt } from "../utils/field";
+
+type Vector3 = { x: number; y: number; z: number };
+
+interface PitcherFigureProps {
+  releasePoint: Vector3;
+  handedness: Handedness;
+}
+
+const FIGURE_COLOR = "#333344";
+const FIGURE_OPACITY = 0.35; // Matches the batter silhouette
+const LIMB_RADIUS = 0.05;
+const HIP_HEIGHT = 0.85; // meters above the stride foot, knee bent in the landing
+const SHOULDER_HEIGHT = 1.35; // Torso tipped forward over the front leg at release
+const SHOULDER_HALF_WIDTH = 0.2;
+const STRIDE_BEHIND_RELEASE = 0.35; // Release is out in front of the landing foot
+
+// A capsule between two points
+const Limb: React.FC<{ from: THREE.Vector3; to: THREE.Vector3; radius: number }> = ({
+  from,
+  to,
+  radius,
+}) => {
+  const direction = to.clone().sub(from);
+  const length = direction.length();
+  if (length === 0) return null;
+  // Capsules run along +Y by default
+  const quaternion = new THREE.Quaternion().setFromUnitVectors(
+    new THREE.Vector3(0, 1, 0),
+    direction.normalize()
+  );
+  return (
+    <mesh position={from.clone().lerp(to, 0.5)} quaternion={quaternion}>
+      <capsuleGeometry args={[radius, length, 4, 12]} />
+      <meshStandardMaterial color={FIGURE_COLOR} transparent={true} opacity={FIGURE_OPACITY} />
+    </mesh>
+  );
+};
+
+/**
+ * A simple pitcher caught at release: back foot on the rubber, stride foot
+ * down the mound, and the throwing arm reaching to the release point.
+ */
+const PitcherFigure: React.FC<PitcherFigureProps> = ({ releasePoint, handedness }) => {
+  const arm = handedness === "R" ? -1 : 1; // Throwing-arm side along X
+
+  // Feet stand on the mound surface
+  const backFootX = arm * 0.15;
+  const backFoot = new THREE.Vector3(backFootX, moundHeightAt(backFootX, RUBBER_Z), RUBBER_Z);
+  const strideZ = Math.max(releasePoint.z - STRIDE_BEHIND_RELEASE, RUBBER_Z + 2 * FEET_TO_METERS);
+  const strideX = -arm * 0.1;
+  const strideFoot = new THREE.Vector3(strideX, moundHeightAt(strideX, strideZ), strideZ);
+
+  const hips = new THREE.Vector3(0, strideFoot.y + HIP_HEIGHT, (backFoot.z + strideFoot.z) / 2);
+  const shoulderCenter = new THREE.Vector3(0, strideFoot.y + SHOULDER_HEIGHT, strideZ);
+  const throwingShoulder = shoulderCenter.clone().setX(arm * SHOULDER_HALF_WIDTH);
+  const gloveShoulder = shoulderCenter.clone().setX(-arm * SHOULDER_HALF_WIDTH);
+  const glove = new THREE.Vector3(-arm * 0.3, hips.y + 0.1, strideZ - 0.1);
+  const release = new THREE.Vector3(releasePoint.x, releasePoint.y, releasePoint.z);
+
+  return (
+    <group>
+      <Limb from={backFoot} to={hips} radius={LIMB_RADIUS} />
+      <Limb from={strideFoot} to={hips} radius={LIMB_RADIUS} />
+      <Limb from={hips} to={shoulderCenter} radius={LIMB_RADIUS * 2.5} />
+      <Limb from={gloveShoulder} to={throwingShoulder} radius={LIMB_RADIUS} />
+      <Limb from={gloveShoulder} to={glove} radius={LIMB_RADIUS * 0.8} />
+      <Limb from={throwingShoulder} to={release} radius={LIMB_RADIUS * 0.8} />
+      {/* Head, just behind and above the shoulders */}
+      <mesh position={[0, shoulderCenter.y + 0.22, strideZ - 0.05]}>
+        <sphereGeometry args={[0.11, 16, 16]} />
+        <meshStandardMaterial color={FIGURE_COLOR} transparent={true} opacity={FIGURE_OPACITY} />
+      </mesh>
+    </group>
+  );
+};
+
+export default PitcherFigure;
@@ -0,0 +1,111 @@
+import React, { useEffect, useRef } from 'react';
+import { DECISION_TIME_BEFORE_PLATE } from '../utils/tunnel';
+import { PlaybackClock } from '../utils/playbackClock';
+
+interface PlaybackBarProps {
+  isPlaying: boolean;
+  onPlayPause: () => void;
+  clock: PlaybackClock; // Time since release; followed without re-rendering
+  flightTime: number;
+  onScrub: (time: number) => void; // Pauses and jumps to the time
+  onStep: (frames: number) => void; // Pauses and moves by whole frames (negative = back)
+  speed: number; // Playback rate, 1 = real time
+  setSpeed: (speed: number) => void;
+}
+
+const buttonStyle: React.CSSProperties = { padding: '2px 8px', fontSize: '12px' };
+
+const PlaybackBar: React.FC<PlaybackBarProps> = ({
+  isPlaying,
+  onPlayPause,
+  clock,
+  flightTime,
+  onScrub,
+  onStep,
+  speed,
+  setSpeed,
+}) => {
+  const scrubberRef = useRef<HTMLInputElement>(null);
+  const timeRef = useRef<HTMLSpanElement>(null);
+
+  // Move the scrubber and readout straight in the DOM as the clock ticks
+  useEffect(() => {
+    const show = (time: number) => {
+      const shown = Math.min(time, flightTime);
+      if (scrubberRef.current) scrubberRef.current.value = String(shown);
+      if (timeRef.current) {
+        timeRef.current.textContent = `${shown.toFixed(3)} / ${flightTime.toFixed(3)} s`;
+      }
+    };
+    show(clock.get());
+    return clock.subscribe(show);
+  }, [clock, flightTime]);
+
+  // Key moments along the flight, placed over the scrubber
+  const markers = [
+    { label: 'Release', time: 0 },
+    { label: 'Decision', time: flightTime - DECISION_TIME_BEFORE_PLATE },
+    { label: 'Plate', time: flightTime },
+  ].filter((marker) => marker.time >= 0 && flightTime > 0);
+
+  return (
+    <div className="playback-bar">
+      <button style={buttonStyle} onClick={() => onStep(-1)} title="Back one frame">
+        ◀|
+      </button>
+      <button style={{ ...buttonStyle, width: '60px' }} onClick={onPlayPause}>
+        {isPlaying ? 'Pause' : 'Play'}
+      </button>
+      <button style={buttonStyle} onClick={() => onStep(1)} title="Forward one frame">
+        |▶
+      </button>
+      <div style={{ position: 'relative', flex: 1, paddingTop: '14px' }}>
+        {markers.map((marker) => (
+          <button
+            key={marker.label}
+            onClick={() => onScrub(marker.time)}
+            title={`Jump to ${marker.label.toLowerCase()}`}
+            style={{
+              position: 'absolute',
+              top: 0,
+              left: `${(marker.time / flightTime) * 100}%`,
+              transform: 'translateX(-50%)',
+              padding: 0,
+              border: 'none',
+              background: 'none',
+              color: '#ffd400',
+              fontSize: '10px',
+              cursor: 'pointer',
+            }}
+          >
+            {marker.label} ▾
+          </button>
+        ))}
+        <input
+          ref={scrubberRef}
+          type="range"
+          min="0"
+          max={flightTime}
+          step="0.001"
+          defaultValue={0}
+          onChange={(e) => onScrub(parseFloat(e.target.value))}
+          style={{ width: '100%' }}
+        />
+      </div>
+      <span ref={timeRef} style={{ fontSize: '12px', width: '90px' }} />
+      <label style={{ fontSize: '12px', width: '34px' }}>{speed.toFixed(2)}x</label>
+      <input
+        type="range"
+        min="0.1"
+        max="1"
+        step="0.05"
+        value={speed}
+        onChange={(e) => setSpeed(parseFloat(e.target.value))}
+        title="Playback speed"
+        style={{ width: '70px' }}
+      />
+    </div>
+  );
+};
+
+export default PlaybackBar;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Handedness, ReleaseSettings } from '../utils/release';
+import { PANEL_STYLE, toggleButtonStyle } from '../styles';
+
+interface ReleaseControlsProps {
+  handedness: Handedness;
+  // Switching hands mirrors the release side and horizontal break in the parent
+  onHandednessChange: (handedness: Handedness) => void;
+  release: ReleaseSettings;
+  setRelease: (release: ReleaseSettings) => void;
+}
+
+const ReleaseControls: React.FC<ReleaseControlsProps> = ({
+  handedness,
+  onHandednessChange,
+  release,
+  setRelease,
+}) => {
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Release</h4>
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <button style={toggleButtonStyle(handedness === 'R')} onClick={() => onHandednessChange('R')}>
+          RHP
+        </button>
+        <button style={toggleButtonStyle(handedness === 'L')} onClick={() => onHandednessChange('L')}>
+          LHP
+        </button>
+      </div>
+      <div>
+        <label>Release Height (ft): {release.heightFt.toFixed(1)}</label>
+        <input
+          type="range"
+          min="3"
+          max="7.5"
+          step="0.1"
+          value={release.heightFt}
+          onChange={(e) => setRelease({ ...release, heightFt: parseFloat(e.target.value) })}
+          style={{ width: '100%' }}
+        />
+      </div>
+      <div>
+        <label>Release Side (ft, catcher's view): {release.sideFt.toFixed(1)}</label>
+        <input
+          type="range"
+          min="-4"
+          max="4"
+          step="0.1"
+          value={release.sideFt}
+          onChange={(e) => setRelease({ ...release, sideFt: parseFloat(e.target.value) })}
+          style={{ width: '100%' }}
+        />
+      </div>
+      <div>
+        <label>Extension (ft): {release.extensionFt.toFixed(1)}</label>
+        <input
+          type="range"
+          min="4"
+          max="8"
+          step="0.1"
+          value={release.extensionFt}
+          onChange={(e) => setRelease({ ...release, extensionFt: parseFloat(e.target.value) })}
+          style={{ width: '100%' }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ReleaseControls;
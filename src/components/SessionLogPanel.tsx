@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { SessionPitch, sessionCsv, sessionJson, trajectoryCsv } from '../utils/sessionLog';
+import { pitchTypeColor } from '../utils/pitchLibrary';
+import { downloadText } from '../utils/download';
+import { METERS_TO_FEET } from '../constants';
+import { PANEL_STYLE } from '../styles';
+
+interface SessionLogPanelProps {
+  pitches: SessionPitch[]; // Oldest first
+  onReplay: (pitch: SessionPitch) => void; // Load the pitch into the scene and throw it
+  onClear: () => void;
+}
+
+type SortKey = 'number' | 'type' | 'speed' | 'flight' | 'height' | 'call';
+
+interface Column {
+  key: SortKey;
+  label: string;
+  title?: string;
+}
+
+const COLUMNS: Column[] = [
+  { key: 'number', label: '#' },
+  { key: 'type', label: 'Type' },
+  { key: 'speed', label: 'MPH', title: 'Release speed' },
+  { key: 'flight', label: 'Time', title: 'Flight time (s)' },
+  { key: 'height', label: 'Loc', title: 'Plate location, x / height (ft)' },
+  { key: 'call', label: 'Call' },
+];
+
+// Values the table sorts on; `number` is the pitch's place in the session
+const sortValue = (pitch: SessionPitch, number: number, key: SortKey): number | string => {
+  switch (key) {
+    case 'number':
+      return number;
+    case 'type':
+      return pitch.setup.pitchType ?? '';
+    case 'speed':
+      return pitch.releaseSpeedMPH;
+    case 'flight':
+      return pitch.flightTime;
+    case 'height':
+      return pitch.plate.y;
+    case 'call':
+      return pitch.call.isStrike ? 1 : 0;
+  }
+};
+
+const SessionLogPanel: React.FC<SessionLogPanelProps> = ({ pitches, onReplay, onClear }) => {
+  // Newest first until a header is clicked
+  const [sortKey, setSortKey] = useState<SortKey>('number');
+  const [isAscending, setIsAscending] = useState<boolean>(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const rows = useMemo(() => {
+    const numbered = pitches.map((pitch, index) => ({ pitch, number: index + 1 }));
+    const direction = isAscending ? 1 : -1;
+    return numbered.sort((a, b) => {
+      const va = sortValue(a.pitch, a.number, sortKey);
+      const vb = sortValue(b.pitch, b.number, sortKey);
+      // Ties keep session order
+      return (va < vb ? -1 : va > vb ? 1 : 0) * direction || a.number - b.number;
+    });
+  }, [pitches, sortKey, isAscending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setIsAscending(!isAscending);
+    } else {
+      setSortKey(key);
+      setIsAscending(true);
+    }
+  };
+
+  const fileStem = `pitch-session-${new Date().toISOString().slice(0, 10)}`;
+
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Session Log</h4>
+      {pitches.length === 0 ? (
+        <div style={{ fontSize: '12px' }}>Thrown pitches are logged here.</div>
+      ) : (
+        <div style={{ maxHeight: '200px', overflowY: 'auto' }}>
+          <table style={{ fontSize: '11px', width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                {COLUMNS.map((column) => (
+                  <th
+                    key={column.key}
+                    title={column.title}
+                    onClick={() => handleSort(column.key)}
+                    style={{ cursor: 'pointer', whiteSpace: 'nowrap' }}
+                  >
+                    {column.label}
+                    {column.key === sortKey && (isAscending ? ' ▲' : ' ▼')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ pitch, number }) => (
+                <tr
+                  key={pitch.id}
+                  title={new Date(pitch.timestamp).toLocaleTimeString()}
+                  onClick={() => {
+                    setSelectedId(pitch.id);
+                    onReplay(pitch);
+                  }}
+                  style={{
+                    cursor: 'pointer',
+                    background: pitch.id === selectedId ? 'rgba(100,108,255,0.5)' : undefined,
+                  }}
+                >
+                  <td>{number}</td>
+                  <td style={{ color: pitchTypeColor(pitch.setup.pitchType) }}>
+                    {pitch.setup.pitchType ?? '–'}
+                  </td>
+                  <td>{pitch.releaseSpeedMPH.toFixed(1)}</td>
+                  <td>{pitch.flightTime.toFixed(3)}</td>
+                  <td>
+                    {(pitch.plate.x * METERS_TO_FEET).toFixed(2)} /{' '}
+                    {(pitch.plate.y * METERS_TO_FEET).toFixed(2)}
+                  </td>
+                  <td style={{ color: pitch.call.isStrike ? '#ff8080' : '#80c0ff' }}>
+                    {pitch.call.isStrike ? 'K' : 'B'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+        <button
+          onClick={() => downloadText(sessionCsv(pitches), `${fileStem}.csv`, 'text/csv')}
+          disabled={pitches.length === 0}
+        >
+          CSV
+        </button>
+        <button
+          onClick={() =>
+            downloadText(trajectoryCsv(pitches), `${fileStem}-trajectories.csv`, 'text/csv')
+          }
+          disabled={pitches.length === 0}
+          title="Sampled positions every 10 ms, one row per sample"
+        >
+          Trajectories CSV
+        </button>
+        <button
+          onClick={() => downloadText(sessionJson(pitches), `${fileStem}.json`, 'application/json')}
+          disabled={pitches.length === 0}
+        >
+          JSON
+        </button>
+        <button
+          onClick={() => window.confirm(`Clear all ${pitches.length} logged pitches?`) && onClear()}
+          disabled={pitches.length === 0}
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionLogPanel;
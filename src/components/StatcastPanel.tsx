@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import {
+  StatcastPitch,
+  STATCAST_FIELDS,
+  SAMPLE_STATCAST_PITCH,
+  parseStatcastText,
+  statcastToScene,
+} from '../utils/statcast';
+import { PANEL_STYLE } from '../styles';
+
+interface StatcastPanelProps {
+  isActive: boolean; // True while a Statcast pitch is replacing the controls
+  onReplay: (pitch: StatcastPitch) => void; // Load the pitch into the scene and throw it
+  onClear: () => void; // Go back to the pitch controls
+}
+
+const StatcastPanel: React.FC<StatcastPanelProps> = ({ isActive, onReplay, onClear }) => {
+  const [pitch, setPitch] = useState<StatcastPitch>(SAMPLE_STATCAST_PITCH);
+  const [pasteText, setPasteText] = useState<string>('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const kinematics = statcastToScene(pitch);
+
+  const handlePaste = () => {
+    const result = parseStatcastText(pasteText);
+    if ('errors' in result) {
+      setErrors(result.errors);
+    } else {
+      setErrors([]);
+      setPitch(result.pitch);
+    }
+  };
+
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Statcast Replay</h4>
+      <textarea
+        value={pasteText}
+        onChange={(e) => setPasteText(e.target.value)}
+        placeholder="Paste a Savant CSV header + row, JSON, or name: value lines"
+        rows={3}
+        style={{ width: '100%', fontSize: '11px' }}
+      />
+      <button onClick={handlePaste} disabled={pasteText.trim() === ''}>
+        Parse
+      </button>
+      {errors.length > 0 && (
+        <div style={{ color: '#ff8080', fontSize: '12px' }}>{errors.join(', ')}</div>
+      )}
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px', fontSize: '12px' }}>
+        {STATCAST_FIELDS.map((field) => (
+          <label key={field} style={{ display: 'flex', flexDirection: 'column' }}>
+            {field}
+            <input
+              type="number"
+              step="0.01"
+              value={pitch[field]}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!Number.isNaN(value)) setPitch({ ...pitch, [field]: value });
+              }}
+            />
+          </label>
+        ))}
+      </div>
+      {kinematics ? (
+        <div style={{ fontSize: '12px' }}>
+          Fit vs. reported release: {(kinematics.releaseMismatch * 12).toFixed(1)} in
+        </div>
+      ) : (
+        <div style={{ color: '#ff8080', fontSize: '12px' }}>
+          This fit never reaches the plate.
+        </div>
+      )}
+      <button onClick={() => onReplay(pitch)} disabled={!kinematics}>
+        Replay Pitch
+      </button>
+      {isActive && <button onClick={onClear}>Back to Controls</button>}
+    </div>
+  );
+};
+
+export default StatcastPanel;
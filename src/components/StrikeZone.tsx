@@ -1,21 +1,58 @@
-import React, { useMemo, useCallback, useState, useEffect } from "react";
+import React, { useMemo, useCallback, useRef, useEffect } from "react";
 import { Line } from "@react-three/drei";
+import { useFrame } from "@react-three/fiber";
 import * as THREE from "three";
+import {
+  CHASE_OUTER_SCALE,
+  SHADOW_INNER_SCALE,
+  SHADOW_OUTER_SCALE,
+  ZoneRect,
+  scaledZoneRect,
+  zoneGridLines,
+} from "../utils/strikeZone";
+import { HeatMapGrid } from "../utils/heatMap";
 
 interface StrikeZoneProps {
   strikeZoneWidth: number;
   strikeZoneBottom: number;
   strikeZoneTop: number;
   plateTotalDepth: number;
+  showGrid?: boolean; // 3x3 zones plus the shadow and chase regions on the front face
+  heatMap?: HeatMapGrid | null; // Pitch density drawn on the front face
 }
 
 const STRIKE_ZONE_LINE_WIDTH = 5; // Define line width as a constant
+const GRID_COLOR = "#ffffff";
+const SHADOW_COLOR = "#ffb347";
+const CHASE_COLOR = "#b0b0b0";
+
+// Blue (sparse) to red (dense)
+const HEAT_RAMP = ["#2c7bb6", "#abd9e9", "#ffffbf", "#fdae61", "#d7191c"].map(
+  (hex) => new THREE.Color(hex)
+);
+const HEAT_MIN_DENSITY = 0.03; // Lighter cells are left clear
+
+const heatColor = (t: number): THREE.Color => {
+  const scaled = t * (HEAT_RAMP.length - 1);
+  const i = Math.min(Math.floor(scaled), HEAT_RAMP.length - 2);
+  return new THREE.Color().lerpColors(HEAT_RAMP[i], HEAT_RAMP[i + 1], scaled - i);
+};
+
+const rectOutline = (rect: ZoneRect, z: number): [number, number, number][] => [
+  [rect.left, rect.bottom, z],
+  [rect.right, rect.bottom, z],
+  [rect.right, rect.top, z],
+  [rect.left, rect.top, z],
+  [rect.left, rect.bottom, z],
+];
 
 const StrikeZone: React.FC<StrikeZoneProps> = ({
   strikeZoneWidth,
   strikeZoneBottom,
   strikeZoneTop,
   plateTotalDepth,
+  showGrid = false,
+  heatMap = null,
 }) => {
   // --- Calculate Strike Zone Dimensions ---
   const strikeZoneCenterY = (strikeZoneTop + strikeZoneBottom) / 2;
@@ -142,26 +179,96 @@ const StrikeZone: React.FC<StrikeZoneProps> = ({
     return { frontLineData, backLineData, connectingLineData };
   }, [strikeZoneWidth, strikeZoneHeight, plateTotalDepth, generateLineData]); // Keep generateLineData in deps
 
-  // Effect to modulate front line width for visual interest
-  const [frontLineWidth, setFrontLineWidth] = useState(STRIKE_ZONE_LINE_WIDTH * 1.4);
-  
-  // Pulse the front line width slightly to give depth cues
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setFrontLineWidth(
-        STRIKE_ZONE_LINE_WIDTH * (1.3 + 0.3 * Math.sin(Date.now() / 1000))
+  // Zone grid and attack regions, drawn in world coordinates on the front face
+  const gridData = useMemo(() => {
+    const zone = { width: strikeZoneWidth, bottom: strikeZoneBottom, top: strikeZoneTop };
+    const { xs, ys } = zoneGridLines(zone);
+    const z = plateTotalDepth;
+    const inner: [number, number, number][][] = [
+      ...xs.slice(1, 3).map((x): [number, number, number][] => [
+        [x, strikeZoneBottom, z],
+        [x, strikeZoneTop, z],
+      ]),
+      ...ys.slice(1, 3).map((y): [number, number, number][] => [
+        [-strikeZoneWidth / 2, y, z],
+        [strikeZoneWidth / 2, y, z],
+      ]),
+    ];
+    return {
+      inner,
+      shadowInner: rectOutline(scaledZoneRect(zone, SHADOW_INNER_SCALE), z),
+      shadowOuter: rectOutline(scaledZoneRect(zone, SHADOW_OUTER_SCALE), z),
+      chase: rectOutline(scaledZoneRect(zone, CHASE_OUTER_SCALE), z),
+    };
+  }, [strikeZoneWidth, strikeZoneBottom, strikeZoneTop, plateTotalDepth]);
+
+  const heatTexture = useMemo(() => {
+    if (!heatMap) return null;
+    const data = new Uint8Array(heatMap.columns * heatMap.rows * 4);
+    heatMap.density.forEach((t, i) => {
+      if (t < HEAT_MIN_DENSITY) return;
+      const color = heatColor(t);
+      data.set(
+        [color.r * 255, color.g * 255, color.b * 255, (0.25 + 0.55 * t) * 255],
+        i * 4
       );
-    }, 50);
-    return () => clearInterval(interval);
-  }, []);
+    });
+    const texture = new THREE.DataTexture(data, heatMap.columns, heatMap.rows);
+    texture.magFilter = THREE.LinearFilter;
+    texture.needsUpdate = true;
+    return texture;
+  }, [heatMap]);
+
+  useEffect(() => () => heatTexture?.dispose(), [heatTexture]);
+
+  // Pulse the front line width slightly to give depth cues. Written straight to
+  // the line material each frame so the zone never re-renders for it.
+  const frontLineRef = useRef<React.ComponentRef<typeof Line>>(null);
+  useFrame(() => {
+    if (frontLineRef.current) {
+      frontLineRef.current.material.linewidth =
+        STRIKE_ZONE_LINE_WIDTH * (1.3 + 0.3 * Math.sin(Date.now() / 1000));
+    }
+  });
 
   return (
     <>
+      {heatMap && heatTexture && (
+        <mesh
+          position={[
+            (heatMap.rect.left + heatMap.rect.right) / 2,
+            (heatMap.rect.bottom + heatMap.rect.top) / 2,
+            plateTotalDepth - 0.002, // Just behind the front lines
+          ]}
+        >
+          <planeGeometry
+            args={[heatMap.rect.right - heatMap.rect.left, heatMap.rect.top - heatMap.rect.bottom]}
+          />
+          <meshBasicMaterial
+            map={heatTexture}
+            transparent={true}
+            depthWrite={false}
+            toneMapped={false}
+            side={THREE.DoubleSide}
+          />
+        </mesh>
+      )}
+      {showGrid && (
+        <>
+          {gridData.inner.map((points, index) => (
+            <Line key={`grid-${index}`} points={points} color={GRID_COLOR} lineWidth={1.5} transparent={true} opacity={0.7} />
+          ))}
+          <Line points={gridData.shadowInner} color={SHADOW_COLOR} lineWidth={1} dashed={true} dashSize={0.02} gapSize={0.02} />
+          <Line points={gridData.shadowOuter} color={SHADOW_COLOR} lineWidth={1} dashed={true} dashSize={0.02} gapSize={0.02} />
+          <Line points={gridData.chase} color={CHASE_COLOR} lineWidth={1} dashed={true} dashSize={0.03} gapSize={0.03} />
+        </>
+      )}
       {/* Render Front Lines - Brightest with most glow */}
       <Line
         points={strikeZoneLineData.frontLineData.points}
         vertexColors={strikeZoneLineData.frontLineData.colors}
-        lineWidth={frontLineWidth} // Dynamic width
+        ref={frontLineRef}
+        lineWidth={STRIKE_ZONE_LINE_WIDTH * 1.4} // Pulsed in useFrame
         transparent={true}
         position={[0, strikeZoneCenterY, strikeZoneCenterZ]}
         color={0x40c0ff} // Match frontColor
@@ -1,10 +1,20 @@
 import React, { useState, useRef, useCallback, useEffect } from "react";
+import {
+  CHASE_OUTER_SCALE,
+  SHADOW_INNER_SCALE,
+  SHADOW_OUTER_SCALE,
+  ZoneRect,
+  scaledZoneRect,
+  zoneGridLines,
+} from "../utils/strikeZone";
 
 // Constants for conversion
-const INCHES_TO_METERS = 0.0254;
 const METERS_TO_FEET = 1 / 0.3048;
-const MARGIN_INCHES = 4;
-const MARGIN_M = MARGIN_INCHES * INCHES_TO_METERS;
+
+// Region fills, matching the 3D zone's grid colors
+const CHASE_FILL = "rgba(176, 176, 176, 0.5)";
+const SHADOW_FILL = "rgba(255, 179, 71, 0.45)";
+const HEART_FILL = "rgba(255, 255, 255, 0.35)";
 
 interface TargetPadProps {
   targetX: number; // Still in METERS internally
@@ -16,7 +26,7 @@ interface TargetPadProps {
   strikeZoneBottom_m: number;
   strikeZoneTop_m: number;
   padWidth?: number; // pixels
-  padHeight?: number; // pixels
+  padHeight?: number; // pixels; defaults to the chase region's aspect ratio
   setIsDraggingTarget?: (isDragging: boolean) => void; // To update drag state in parent
 }
 
@@ -29,17 +39,20 @@ const TargetPad: React.FC<TargetPadProps> = ({
   strikeZoneBottom_m,
   strikeZoneTop_m,
   padWidth = 150,
-  padHeight = 150,
+  padHeight: padHeightProp,
   setIsDraggingTarget,
 }) => {
   const [isDragging, setIsDragging] = useState(false);
   const padRef = useRef<HTMLDivElement>(null);
 
-  // Calculate the mapping range based on strike zone + margin (in meters)
-  const minX = -(strikeZoneWidth_m / 2) - MARGIN_M;
-  const maxX = strikeZoneWidth_m / 2 + MARGIN_M;
-  const minY = strikeZoneBottom_m - MARGIN_M;
-  const maxY = strikeZoneTop_m + MARGIN_M;
+  // The pad covers the zone out to the edge of the chase region, at true scale
+  const zone = { width: strikeZoneWidth_m, bottom: strikeZoneBottom_m, top: strikeZoneTop_m };
+  const padRect = scaledZoneRect(zone, CHASE_OUTER_SCALE);
+  const minX = padRect.left;
+  const maxX = padRect.right;
+  const minY = padRect.bottom;
+  const maxY = padRect.top;
+  const padHeight = padHeightProp ?? Math.round((padWidth * (maxY - minY)) / (maxX - minX));
 
   // Function to update target based on mouse/touch coordinates
   const updateTarget = useCallback(
@@ -123,13 +136,13 @@ const TargetPad: React.FC<TargetPadProps> = ({
 
   // Basic styles (can be moved to CSS)
   const padStyle: React.CSSProperties = {
-    position: "absolute",
-    top: "10px",
-    right: "10px",
+    position: "relative", // Sits at the top of the right panel column
+    flexShrink: 0,
+    alignSelf: "flex-end",
     width: `${padWidth}px`,
     height: `${padHeight}px`,
     border: "1px solid #ccc",
-    backgroundColor: "rgba(200, 200, 200, 0.7)",
+    backgroundColor: CHASE_FILL,
     borderRadius: "4px",
     cursor: "crosshair",
     zIndex: 1, // Ensure it's above the canvas
@@ -156,6 +169,18 @@ const TargetPad: React.FC<TargetPadProps> = ({
     border: "2px solid rgba(255, 255, 255, 0.9)",
   };
 
+  // Absolute position of a zone-plane rectangle on the pad
+  const rectStyle = (rect: ZoneRect, background: string): React.CSSProperties => ({
+    position: "absolute",
+    left: `${((rect.left - minX) / (maxX - minX)) * padWidth}px`,
+    top: `${((maxY - rect.top) / (maxY - minY)) * padHeight}px`,
+    width: `${((rect.right - rect.left) / (maxX - minX)) * padWidth}px`,
+    height: `${((rect.top - rect.bottom) / (maxY - minY)) * padHeight}px`,
+    background,
+    pointerEvents: "none",
+  });
+  const { xs, ys } = zoneGridLines(zone);
+
   return (
     <div
       ref={padRef}
@@ -186,6 +211,24 @@ const TargetPad: React.FC<TargetPadProps> = ({
         }
       }}
     >
+      {/* Shadow and heart over the chase region, then the 3x3 zone grid */}
+      <div style={rectStyle(scaledZoneRect(zone, SHADOW_OUTER_SCALE), SHADOW_FILL)} />
+      <div style={rectStyle(scaledZoneRect(zone, SHADOW_INNER_SCALE), HEART_FILL)} />
+      {[0, 1, 2].map((row) =>
+        [0, 1, 2].map((column) => (
+          <div
+            key={`${row}-${column}`}
+            style={{
+              ...rectStyle(
+                { left: xs[column], right: xs[column + 1], bottom: ys[2 - row], top: ys[3 - row] },
+                "transparent"
+              ),
+              boxSizing: "border-box",
+              border: "1px solid rgba(255, 255, 255, 0.9)",
+            }}
+          />
+        ))
+      )}
       <div style={handleStyle}></div>
       {/* Display coordinates converted to FEET */}
       <div
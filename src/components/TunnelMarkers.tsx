@@ -0,0 +1,75 @@
+import React, { useMemo } from "react";
+import { Line, Sphere } from "@react-three/drei";
+import { TunnelAnalysis, TunnelPitch, TunnelSnapshot } from "../utils/tunnel";
+import { samplePath } from "../utils/pitchHistory";
+
+interface TunnelMarkersProps {
+  pitchA: TunnelPitch;
+  pitchB: TunnelPitch;
+  colorA: string;
+  colorB: string;
+  analysis: TunnelAnalysis;
+}
+
+const MARKER_RADIUS = 0.025;
+const TUNNEL_COLOR = "#ffffff";
+const DECISION_COLOR = "#ffd400";
+
+// A marker on each path at the same moment, joined by a line showing the gap
+const SnapshotMarker: React.FC<{ snapshot: TunnelSnapshot; color: string }> = ({
+  snapshot,
+  color,
+}) => {
+  const a = snapshot.positionA;
+  const b = snapshot.positionB;
+  return (
+    <>
+      <Sphere args={[MARKER_RADIUS, 16, 16]} position={[a.x, a.y, a.z]}>
+        <meshStandardMaterial color={color} emissive={color} emissiveIntensity={1.0} />
+      </Sphere>
+      <Sphere args={[MARKER_RADIUS, 16, 16]} position={[b.x, b.y, b.z]}>
+        <meshStandardMaterial color={color} emissive={color} emissiveIntensity={1.0} />
+      </Sphere>
+      <Line
+        points={[
+          [a.x, a.y, a.z],
+          [b.x, b.y, b.z],
+        ]}
+        color={color}
+        lineWidth={1}
+      />
+    </>
+  );
+};
+
+const TunnelMarkers: React.FC<TunnelMarkersProps> = ({
+  pitchA,
+  pitchB,
+  colorA,
+  colorB,
+  analysis,
+}) => {
+  const pathA = useMemo(
+    () => samplePath(pitchA.getPositionAtTime, pitchA.flightTime),
+    [pitchA]
+  );
+  const pathB = useMemo(
+    () => samplePath(pitchB.getPositionAtTime, pitchB.flightTime),
+    [pitchB]
+  );
+
+  return (
+    <>
+      <Line points={pathA} color={colorA} lineWidth={2} dashed={true} dashSize={0.1} gapSize={0.05} />
+      <Line points={pathB} color={colorB} lineWidth={2} dashed={true} dashSize={0.1} gapSize={0.05} />
+      {analysis.tunnelPoint && (
+        <SnapshotMarker snapshot={analysis.tunnelPoint} color={TUNNEL_COLOR} />
+      )}
+      {analysis.decisionPoint && (
+        <SnapshotMarker snapshot={analysis.decisionPoint} color={DECISION_COLOR} />
+      )}
+    </>
+  );
+};
+
+export default TunnelMarkers;
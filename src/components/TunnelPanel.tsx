@@ -0,0 +1,199 @@
+import React from 'react';
+import { ThrownPitch } from '../utils/pitchHistory';
+import { PITCH_TYPES, PitchTypeCode, builtInSelection } from '../utils/pitchLibrary';
+import { Handedness } from '../utils/release';
+import {
+  SecondPitch,
+  TunnelAnalysis,
+  TunnelSource,
+  DECISION_TIME_BEFORE_PLATE,
+} from '../utils/tunnel';
+import { INCHES_TO_METERS, FEET_TO_METERS, METERS_TO_FEET } from '../constants';
+import { PANEL_STYLE, toggleButtonStyle } from '../styles';
+
+interface TunnelPanelProps {
+  history: ThrownPitch[];
+  isEnabled: boolean;
+  setIsEnabled: (value: boolean) => void;
+  sourceA: TunnelSource;
+  setSourceA: (source: TunnelSource) => void;
+  sourceB: TunnelSource;
+  setSourceB: (source: TunnelSource) => void;
+  thresholdInches: number;
+  setThresholdInches: (value: number) => void;
+  analysis: TunnelAnalysis | null; // null when a selected pitch is no longer available
+  secondPitch: SecondPitch;
+  setSecondPitch: (pitch: SecondPitch) => void;
+  handedness: Handedness; // Picking a type fills in the library values for this hand
+}
+
+const parseSource = (value: string): TunnelSource =>
+  value === 'current' || value === 'second' ? value : parseInt(value, 10);
+
+const pitchLabel = (pitch: ThrownPitch) => {
+  const name = PITCH_TYPES.find((info) => info.code === pitch.pitchType)?.name ?? 'Unlabeled';
+  return `#${pitch.id + 1} ${name} ${pitch.velocity.toFixed(1)} mph`;
+};
+
+const SourceSelect: React.FC<{
+  label: string;
+  value: TunnelSource;
+  onChange: (source: TunnelSource) => void;
+  history: ThrownPitch[];
+}> = ({ label, value, onChange, history }) => (
+  <div>
+    <label>{label}: </label>
+    <select
+      value={String(value)}
+      onChange={(e) => onChange(parseSource(e.target.value))}
+    >
+      <option value="current">Current controls</option>
+      <option value="second">Second pitch</option>
+      {history.map((pitch) => (
+        <option key={pitch.id} value={pitch.id}>
+          {pitchLabel(pitch)}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+// A compact copy of the main pitch controls for the second pitch
+const SecondPitchControls: React.FC<{
+  pitch: SecondPitch;
+  setPitch: (pitch: SecondPitch) => void;
+  handedness: Handedness;
+}> = ({ pitch, setPitch, handedness }) => {
+  const slider = (
+    label: string,
+    value: number,
+    min: number,
+    max: number,
+    step: number,
+    onChange: (value: number) => void,
+    digits = 1
+  ) => (
+    <div>
+      <label>
+        {label}: {value.toFixed(digits)}
+      </label>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        style={{ width: '100%' }}
+      />
+    </div>
+  );
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px' }}>
+      <strong>Second pitch</strong>
+      <select
+        value={pitch.pitchType ?? ''}
+        onChange={(e) => {
+          const info = PITCH_TYPES.find((t) => t.code === (e.target.value as PitchTypeCode));
+          if (info) setPitch({ ...pitch, ...builtInSelection(info, handedness) });
+        }}
+      >
+        {pitch.pitchType === null && <option value="">Unlabeled</option>}
+        {PITCH_TYPES.map((info) => (
+          <option key={info.code} value={info.code}>
+            {info.name}
+          </option>
+        ))}
+      </select>
+      {slider('Velocity (mph)', pitch.velocity, 60, 105, 0.5, (velocity) =>
+        setPitch({ ...pitch, velocity })
+      )}
+      {slider('IVB (in)', pitch.ivb, -25, 25, 0.1, (ivb) => setPitch({ ...pitch, ivb }))}
+      {slider('HB (in)', pitch.hb, -25, 25, 0.1, (hb) => setPitch({ ...pitch, hb }))}
+      {/* Target in feet, like the target pad */}
+      {slider('Target X (ft)', pitch.target.x * METERS_TO_FEET, -1.5, 1.5, 0.05, (x) =>
+        setPitch({ ...pitch, target: { ...pitch.target, x: x * FEET_TO_METERS } }), 2
+      )}
+      {slider('Target height (ft)', pitch.target.y * METERS_TO_FEET, 0.5, 4.5, 0.05, (y) =>
+        setPitch({ ...pitch, target: { ...pitch.target, y: y * FEET_TO_METERS } }), 2
+      )}
+    </div>
+  );
+};
+
+const TunnelPanel: React.FC<TunnelPanelProps> = ({
+  history,
+  isEnabled,
+  setIsEnabled,
+  sourceA,
+  setSourceA,
+  sourceB,
+  setSourceB,
+  thresholdInches,
+  setThresholdInches,
+  analysis,
+  secondPitch,
+  setSecondPitch,
+  handedness,
+}) => {
+  return (
+    <div style={PANEL_STYLE}>
+      <h4>Tunneling</h4>
+      <button style={toggleButtonStyle(isEnabled)} onClick={() => setIsEnabled(!isEnabled)}>
+        {isEnabled ? 'Hide Tunnel' : 'Show Tunnel'}
+      </button>
+      {isEnabled && (
+        <>
+          <SourceSelect label="Pitch A" value={sourceA} onChange={setSourceA} history={history} />
+          <SourceSelect label="Pitch B" value={sourceB} onChange={setSourceB} history={history} />
+          {(sourceA === 'second' || sourceB === 'second') && (
+            <SecondPitchControls pitch={secondPitch} setPitch={setSecondPitch} handedness={handedness} />
+          )}
+          <div>
+            <label>Tunnel Threshold (inches): {thresholdInches.toFixed(1)}</label>
+            <input
+              type="range"
+              min="0.5"
+              max="12"
+              step="0.5"
+              value={thresholdInches}
+              onChange={(e) => setThresholdInches(parseFloat(e.target.value))}
+              style={{ width: '100%' }}
+            />
+          </div>
+          {analysis ? (
+            <table style={{ fontSize: '12px', width: '100%' }}>
+              <tbody>
+                <tr>
+                  <td>Tunnel point</td>
+                  <td>
+                    {analysis.tunnelPoint
+                      ? `${(analysis.tunnelPoint.distanceFromPlate / FEET_TO_METERS).toFixed(1)} ft / ${analysis.tunnelPoint.timeBeforePlate.toFixed(3)} s before plate`
+                      : 'Never within threshold'}
+                  </td>
+                </tr>
+                <tr>
+                  <td>At decision ({DECISION_TIME_BEFORE_PLATE} s)</td>
+                  <td>
+                    {analysis.decisionPoint
+                      ? `${(analysis.decisionPoint.separation / INCHES_TO_METERS).toFixed(1)} in`
+                      : 'Flight too short'}
+                  </td>
+                </tr>
+                <tr>
+                  <td>At plate</td>
+                  <td>{(analysis.plate.separation / INCHES_TO_METERS).toFixed(1)} in</td>
+                </tr>
+              </tbody>
+            </table>
+          ) : (
+            <div style={{ fontSize: '12px' }}>Pick two pitches to compare.</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TunnelPanel;
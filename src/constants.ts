@@ -1,6 +1,7 @@
 // Conversion Constants
 export const INCHES_TO_METERS = 0.0254;
 export const FEET_TO_METERS = 0.3048;
+export const METERS_TO_FEET = 1 / FEET_TO_METERS;
 
 // Strike Zone Dimensions (in meters)
 export const STRIKE_ZONE_WIDTH = 17 * INCHES_TO_METERS; // 17 inches
@@ -12,3 +13,26 @@ export const PLATE_WIDTH = 17 * INCHES_TO_METERS; // 17 inches wide
 export const PLATE_POINT_LENGTH = 8.5 * INCHES_TO_METERS; // Length of the triangular point
 export const PLATE_SIDE_LENGTH = 8.5 * INCHES_TO_METERS; // Length of the square sides
 export const PLATE_TOTAL_DEPTH = PLATE_SIDE_LENGTH + PLATE_POINT_LENGTH; // Total depth from back point to front edge
+export const PLATE_FRONT_Z = 0; // Front edge (facing the pitcher)
+export const PLATE_BACK_POINT_Z = PLATE_TOTAL_DEPTH; // Front edge sits at Z=0, back point towards the catcher
+
+// Pitching Distance (in meters)
+export const PITCHING_DISTANCE = 60.5 * FEET_TO_METERS; // Front of the rubber to the back point of home plate
+export const RUBBER_Z = PLATE_BACK_POINT_Z - PITCHING_DISTANCE; // Z of the front edge of the rubber
+
+// Baseball Properties
+export const BALL_RADIUS = 0.073 / 2; // meters (2.87 inch diameter)
+export const BALL_MASS_KG = 0.145; // 5.1 ounces
+
+// Field Dimensions (in meters)
+export const MOUND_HEIGHT = 10 * INCHES_TO_METERS; // Rubber height above home plate
+export const MOUND_RADIUS = 9 * FEET_TO_METERS; // 18 ft diameter circle
+export const MOUND_CENTER_Z = RUBBER_Z + 18 * INCHES_TO_METERS; // Center is 18 in in front of the rubber
+export const RUBBER_WIDTH = 24 * INCHES_TO_METERS;
+export const RUBBER_DEPTH = 6 * INCHES_TO_METERS;
+export const HOME_DIRT_RADIUS = 13 * FEET_TO_METERS; // Circle around home plate
+export const BATTERS_BOX_WIDTH = 4 * FEET_TO_METERS;
+export const BATTERS_BOX_LENGTH = 6 * FEET_TO_METERS;
+export const BATTERS_BOX_GAP = 6 * INCHES_TO_METERS; // From the edge of the plate to the box
+export const CATCHERS_BOX_WIDTH = 43 * INCHES_TO_METERS;
+export const CATCHERS_BOX_LENGTH = 8 * FEET_TO_METERS;
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CameraPreset, parseCameraPresets } from '../utils/cameraPresets';
+
+const STORAGE_KEY = 'pitch-vis.cameraPresets';
+
+// Reads saved presets, ignoring anything unreadable rather than failing the app
+const loadPresets = (): CameraPreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseCameraPresets(JSON.parse(stored)) : [];
+  } catch (error) {
+    console.warn('[useCameraPresets] Ignoring unreadable saved camera presets.', error);
+    return [];
+  }
+};
+
+/**
+ * Custom hook holding the user's own camera presets, persisted to localStorage.
+ *
+ * @returns The presets plus callbacks to add one and remove one.
+ */
+const useCameraPresets = () => {
+  const [presets, setPresets] = useState<CameraPreset[]>(loadPresets);
+
+  // Save on every change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  }, [presets]);
+
+  const savePreset = useCallback((preset: CameraPreset) => {
+    setPresets((prev) => [...prev, preset]);
+  }, []);
+
+  const deletePreset = useCallback((id: string) => {
+    setPresets((prev) => prev.filter((p) => p.id !== id));
+  }, []);
+
+  return { presets, savePreset, deletePreset };
+};
+
+export default useCameraPresets;
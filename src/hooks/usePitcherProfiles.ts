@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PitcherProfile, parseProfiles } from '../utils/pitchLibrary';
+
+const STORAGE_KEY = 'pitch-vis.pitcherProfiles';
+
+// Reads saved profiles, ignoring anything unreadable rather than failing the app
+const loadProfiles = (): PitcherProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseProfiles(JSON.parse(stored)) : [];
+  } catch (error) {
+    console.warn('[usePitcherProfiles] Ignoring unreadable saved profiles.', error);
+    return [];
+  }
+};
+
+/**
+ * Custom hook holding the user's pitcher profiles, persisted to localStorage.
+ *
+ * @returns The profiles plus callbacks to replace or update one, remove one,
+ *   and merge in profiles imported from JSON.
+ */
+const usePitcherProfiles = () => {
+  const [profiles, setProfiles] = useState<PitcherProfile[]>(loadProfiles);
+
+  // Save on every change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  }, [profiles]);
+
+  const saveProfile = useCallback((profile: PitcherProfile) => {
+    setProfiles((prev) =>
+      prev.some((p) => p.id === profile.id)
+        ? prev.map((p) => (p.id === profile.id ? profile : p))
+        : [...prev, profile]
+    );
+  }, []);
+
+  const deleteProfile = useCallback((id: string) => {
+    setProfiles((prev) => prev.filter((p) => p.id !== id));
+  }, []);
+
+  // Imported profiles replace saved ones with the same id
+  const importProfiles = useCallback((imported: PitcherProfile[]) => {
+    setProfiles((prev) => [
+      ...prev.filter((p) => !imported.some((i) => i.id === p.id)),
+      ...imported,
+    ]);
+  }, []);
+
+  return { profiles, saveProfile, deleteProfile, importProfiles };
+};
+
+export default usePitcherProfiles;
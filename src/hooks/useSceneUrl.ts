@@ -0,0 +1,34 @@
+import { useEffect, useCallback } from 'react';
+import { SceneState, encodeSceneState } from '../utils/sceneUrl';
+
+// Browsers throttle history updates, so wait for a drag to settle
+const URL_UPDATE_DELAY_MS = 400;
+
+/**
+ * Custom hook keeping the address bar in step with the scene, so a reload
+ * restores it.
+ *
+ * @param scene The scene as it is now.
+ * @returns A function that builds a link to the scene seen through the given camera.
+ */
+const useSceneUrl = (scene: SceneState) => {
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      window.history.replaceState(window.history.state, '', `#${encodeSceneState(scene)}`);
+    }, URL_UPDATE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [scene]);
+
+  const linkTo = useCallback(
+    (camera: SceneState['camera']) => {
+      const url = new URL(window.location.href);
+      url.hash = encodeSceneState({ ...scene, camera });
+      return url.toString();
+    },
+    [scene]
+  );
+
+  return { linkTo };
+};
+
+export default useSceneUrl;
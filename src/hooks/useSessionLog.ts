@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SessionPitch } from '../utils/sessionLog';
+
+const DB_NAME = 'pitch-vis';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessionLog';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+// Opens the database once, creating the log store on first use
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return databasePromise;
+};
+
+// Runs one request against the log store
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Keeps the in-memory log when storage is unavailable (e.g. private browsing)
+const warnNotSaved = (error: unknown) =>
+  console.warn('[useSessionLog] Could not save the session log.', error);
+
+/**
+ * Custom hook holding the session's pitch log, persisted to IndexedDB since
+ * trajectories make it too large for localStorage.
+ *
+ * @returns The logged pitches (oldest first) plus callbacks to add one and to
+ *   clear the log.
+ */
+const useSessionLog = () => {
+  const [pitches, setPitches] = useState<SessionPitch[]>([]);
+
+  // Load the stored log; pitches thrown while it loads stay after it
+  useEffect(() => {
+    let isCancelled = false;
+    runRequest<SessionPitch[]>('readonly', (store) => store.getAll())
+      .then((stored) => {
+        if (isCancelled) return;
+        stored.sort((a, b) => a.timestamp - b.timestamp);
+        setPitches((prev) => [...stored.filter((s) => !prev.some((p) => p.id === s.id)), ...prev]);
+      })
+      .catch((error) => console.warn('[useSessionLog] Could not load the session log.', error));
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const addPitch = useCallback((pitch: SessionPitch) => {
+    setPitches((prev) => [...prev, pitch]);
+    runRequest('readwrite', (store) => store.put(pitch)).catch(warnNotSaved);
+  }, []);
+
+  const clearLog = useCallback(() => {
+    setPitches([]);
+    runRequest('readwrite', (store) => store.clear()).catch(warnNotSaved);
+  }, []);
+
+  return { pitches, addPitch, clearLog };
+};
+
+export default useSessionLog;
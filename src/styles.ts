@@ -0,0 +1,21 @@
+import type React from "react";
+
+// Shared look for the dark overlay panels around the canvas
+export const PANEL_STYLE: React.CSSProperties = {
+  background: "rgba(0,0,0,0.7)",
+  padding: "15px",
+  borderRadius: "8px",
+  color: "white",
+  display: "flex",
+  flexDirection: "column",
+  gap: "10px",
+  width: "250px",
+};
+
+// Segmented toggle buttons (e.g. Break/Spin, RHP/LHP)
+export const toggleButtonStyle = (active: boolean): React.CSSProperties => ({
+  flex: 1,
+  padding: "4px 8px",
+  background: active ? "#646cff" : "#333",
+  color: "white",
+});
@@ -0,0 +1,51 @@
+import { BATTERS_BOX_GAP, FEET_TO_METERS, INCHES_TO_METERS, PLATE_WIDTH } from "../constants";
+import { Handedness } from "./release";
+
+// The hitter the zone is drawn for
+export interface BatterSettings {
+  side: Handedness; // Which box the batter stands in: "R" = right-handed hitter
+  heightIn: number; // Standing height, inches
+  crouch: number; // Fraction of standing height lost in the stance (0 = upright)
+  // Statcast-style overrides, feet; null = derive from height and stance
+  szTopFt: number | null;
+  szBotFt: number | null;
+}
+
+export const DEFAULT_BATTER: BatterSettings = {
+  side: "R",
+  heightIn: 74,
+  crouch: 0.1,
+  szTopFt: null,
+  szBotFt: null,
+};
+
+/*
+ * The rulebook zone runs from the midpoint between the shoulders and the top of
+ * the pants down to the hollow beneath the kneecap, measured in the stance. As
+ * fractions of stance height these land close to Statcast's average sz_top and
+ * sz_bot for an average-sized hitter.
+ */
+const ZONE_TOP_RATIO = 0.61;
+const ZONE_BOTTOM_RATIO = 0.29;
+
+// Height of the batter in the stance (meters)
+export const stanceHeight = (batter: BatterSettings): number =>
+  batter.heightIn * INCHES_TO_METERS * (1 - batter.crouch);
+
+// Top and bottom of the batter's zone (meters above the ground)
+export const batterZone = (batter: BatterSettings): { top: number; bottom: number } => {
+  const stance = stanceHeight(batter);
+  const top = batter.szTopFt !== null ? batter.szTopFt * FEET_TO_METERS : stance * ZONE_TOP_RATIO;
+  const bottom =
+    batter.szBotFt !== null ? batter.szBotFt * FEET_TO_METERS : stance * ZONE_BOTTOM_RATIO;
+  // Keep the zone from collapsing if the overrides cross
+  return { top: Math.max(top, bottom + INCHES_TO_METERS), bottom };
+};
+
+const STANCE_OFFSET_IN_BOX = 1.25 * FEET_TO_METERS; // Feet set a little inside the box's center
+
+// X of the batter's feet: a right-handed hitter stands on the catcher's left (-X)
+export const batterStanceX = (batter: BatterSettings): number => {
+  const offset = PLATE_WIDTH / 2 + BATTERS_BOX_GAP + STANCE_OFFSET_IN_BOX;
+  return batter.side === "R" ? -offset : offset;
+};
@@ -0,0 +1,83 @@
+import { RUBBER_Z } from "../constants";
+import { createId } from "./pitchLibrary";
+
+type Vector3Tuple = [number, number, number];
+
+// Where the camera sits and what OrbitControls orbits around
+export interface CameraView {
+  position: Vector3Tuple;
+  target: Vector3Tuple;
+  fov: number; // Vertical field of view, degrees
+}
+
+export interface CameraPreset extends CameraView {
+  id: string;
+  name: string;
+  shortcut?: string; // Key that switches to the preset
+  isBuiltIn?: boolean;
+}
+
+export const CATCHER_PRESET_ID = "catcher";
+
+const MOUND_MIDPOINT_Z = RUBBER_Z / 2; // Halfway between the rubber and the plate
+
+/**
+ * The built-in views. The catcher view comes from the app, which frames it on
+ * the current release point; the rest are fixed spots around the field.
+ */
+export const builtInCameraPresets = (catcher: CameraView): CameraPreset[] => {
+  const presets: CameraPreset[] = [
+    { id: CATCHER_PRESET_ID, name: "Catcher", ...catcher },
+    { id: "umpire", name: "Umpire", position: [0, 1.65, 2.1], target: [0, 0.8, -2], fov: 60 },
+    // A hitter's eyes sit over the inside of their box, looking out at the mound
+    { id: "batter-r", name: "Batter (RHH)", position: [-0.75, 1.55, 0.3], target: [0, 1.4, RUBBER_Z], fov: 60 },
+    { id: "batter-l", name: "Batter (LHH)", position: [0.75, 1.55, 0.3], target: [0, 1.4, RUBBER_Z], fov: 60 },
+    { id: "pitcher", name: "Pitcher", position: [0, 1.9, RUBBER_Z - 1], target: [0, 0.75, 0], fov: 40 },
+    { id: "side", name: "Side", position: [7, 1.2, MOUND_MIDPOINT_Z], target: [0, 1.0, MOUND_MIDPOINT_Z], fov: 75 },
+    // Offset a hair along Z so the orbit doesn't look straight down its own pole
+    { id: "overhead", name: "Overhead", position: [0, 16, MOUND_MIDPOINT_Z + 0.01], target: [0, 0, MOUND_MIDPOINT_Z], fov: 75 },
+    // Long lens from straight-away center field, just off the pitcher's shoulder
+    { id: "center-field", name: "CF Broadcast", position: [-0.6, 2.6, -55], target: [0, 0.8, 0], fov: 10 },
+  ];
+  return presets.map((preset, index) => ({ ...preset, shortcut: String(index + 1), isBuiltIn: true }));
+};
+
+// Captures a view as a user preset
+export const createCameraPreset = (name: string, view: CameraView): CameraPreset => ({
+  id: createId(),
+  name,
+  position: view.position,
+  target: view.target,
+  fov: view.fov,
+});
+
+const isVector3 = (value: unknown): value is Vector3Tuple =>
+  Array.isArray(value) &&
+  value.length === 3 &&
+  value.every((v) => typeof v === "number" && Number.isFinite(v));
+
+/**
+ * Validates user presets read from localStorage. Throws if the data isn't a
+ * list of presets.
+ */
+export const parseCameraPresets = (data: unknown): CameraPreset[] => {
+  if (!Array.isArray(data)) throw new Error("Expected a list of camera presets");
+  return data.map((entry, index) => {
+    const preset = entry as CameraPreset;
+    if (
+      typeof preset?.name !== "string" ||
+      !isVector3(preset.position) ||
+      !isVector3(preset.target) ||
+      typeof preset.fov !== "number"
+    ) {
+      throw new Error(`Camera preset ${index + 1} is not valid`);
+    }
+    return {
+      id: typeof preset.id === "string" ? preset.id : createId(),
+      name: preset.name,
+      position: preset.position,
+      target: preset.target,
+      fov: preset.fov,
+    };
+  });
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { BALL_RADIUS, PLATE_TOTAL_DEPTH } from "../constants";
+import { CommandDraw, CommandPitch, DEFAULT_COMMAND, simulateCommand } from "./command";
+import { ZoneBounds } from "./strikeZone";
+
+const ZONE: ZoneBounds = { width: 0.43, bottom: 0.5, top: 1.05, depth: PLATE_TOTAL_DEPTH };
+
+// Every draw at the mean lands each pitch on the target
+const ON_TARGET: CommandDraw[] = [
+  [0, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0],
+];
+
+// A curveball dropping about 8 inches across the plate
+const pitchAt = (y: number): CommandPitch => ({
+  target: { x: 0, y },
+  velocityMPH: 80,
+  flightTime: 0.47,
+  inducedBreak: { ivb: -12, hb: 6 },
+  plateVelocity: { x: 1, y: -7, z: 33 },
+});
+
+describe("simulateCommand", () => {
+  it("calls a pitch that clips the front of the zone a strike, as callPitch does", () => {
+    const belowAtBack = ZONE.bottom - BALL_RADIUS - 0.03;
+    const cloud = simulateCommand(ON_TARGET, DEFAULT_COMMAND, pitchAt(belowAtBack), ZONE);
+    expect(cloud?.inZoneRate).toBe(1);
+  });
+
+  it("calls a pitch below the zone all the way across a ball", () => {
+    const cloud = simulateCommand(ON_TARGET, DEFAULT_COMMAND, pitchAt(ZONE.bottom - 0.2), ZONE);
+    expect(cloud?.inZoneRate).toBe(0);
+  });
+});
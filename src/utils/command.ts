@@ -0,0 +1,155 @@
+import { BALL_RADIUS, INCHES_TO_METERS, PLATE_FRONT_Z } from "../constants";
+import { ZoneBounds, callPitch } from "./strikeZone";
+
+const GRAVITY = 9.81; // m/s^2
+
+// How well a pitcher hits their spot and repeats the pitch (one standard deviation each)
+export interface CommandSettings {
+  missXIn: number; // Horizontal miss around the target, inches
+  missYIn: number; // Vertical miss around the target, inches
+  velocityMph: number; // Pitch-to-pitch velocity variation
+  breakIn: number; // Pitch-to-pitch IVB and HB variation
+}
+
+// Roughly an average big-league fastball
+export const DEFAULT_COMMAND: CommandSettings = {
+  missXIn: 6,
+  missYIn: 7,
+  velocityMph: 0.8,
+  breakIn: 1.2,
+};
+
+export const DEFAULT_SIMULATION_COUNT = 200;
+
+// Standard normal draws for one simulated pitch: miss x, miss y, velocity, IVB, HB
+export type CommandDraw = [number, number, number, number, number];
+
+// The pitch the cloud is built around
+export interface CommandPitch {
+  target: { x: number; y: number }; // Where the pitcher is aiming at the target plane (meters)
+  velocityMPH: number;
+  flightTime: number; // seconds
+  inducedBreak: { ivb: number; hb: number }; // inches
+  plateVelocity: { x: number; y: number; z: number }; // m/s at the target plane
+}
+
+// A confidence ellipse on the target plane
+export interface ConfidenceEllipse {
+  level: number; // Fraction of pitches expected inside, e.g. 0.95
+  center: { x: number; y: number };
+  radii: [number, number]; // Semi-axes, meters
+  angle: number; // Rotation of the first axis from +X, radians
+}
+
+export interface CommandCloud {
+  points: { x: number; y: number; inZone: boolean }[]; // At the target plane (z = back of the plate)
+  ellipses: ConfidenceEllipse[];
+  inZoneRate: number; // Fraction of pitches called strikes
+}
+
+export const CONFIDENCE_LEVELS = [0.5, 0.95];
+
+// Box-Muller transform
+const standardNormal = (): number => {
+  const u = 1 - Math.random(); // (0, 1], keeps the log finite
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+export const drawCommandSamples = (count: number): CommandDraw[] =>
+  Array.from({ length: count }, () => [
+    standardNormal(),
+    standardNormal(),
+    standardNormal(),
+    standardNormal(),
+    standardNormal(),
+  ]);
+
+// Fitted from the sample covariance; a bivariate normal's p-contour is at sqrt(-2 ln(1 - p)) sigma
+const confidenceEllipse = (points: { x: number; y: number }[], level: number): ConfidenceEllipse => {
+  const n = points.length;
+  const mean = points.reduce((m, p) => ({ x: m.x + p.x / n, y: m.y + p.y / n }), { x: 0, y: 0 });
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  for (const p of points) {
+    sxx += (p.x - mean.x) ** 2 / (n - 1);
+    syy += (p.y - mean.y) ** 2 / (n - 1);
+    sxy += ((p.x - mean.x) * (p.y - mean.y)) / (n - 1);
+  }
+  // Eigenvalues of the 2x2 covariance matrix
+  const halfTrace = (sxx + syy) / 2;
+  const spread = Math.sqrt(((sxx - syy) / 2) ** 2 + sxy * sxy);
+  const scale = Math.sqrt(-2 * Math.log(1 - level));
+  return {
+    level,
+    center: mean,
+    radii: [scale * Math.sqrt(halfTrace + spread), scale * Math.sqrt(Math.max(halfTrace - spread, 0))],
+    angle: 0.5 * Math.atan2(2 * sxy, sxx - syy),
+  };
+};
+
+/*
+ * Calls a simulated pitch the way a thrown one is called, sweeping the ball
+ * through the whole depth of the zone. The path over the plate is nearly
+ * straight, so each pitch crosses it along the nominal pitch's direction and
+ * ends at its own point on the target plane.
+ */
+const touchesZone = (
+  x: number,
+  y: number,
+  velocity: { x: number; y: number; z: number },
+  zone: ZoneBounds
+): boolean => {
+  const backZ = PLATE_FRONT_Z + zone.depth;
+  const crossingTime = (backZ - (PLATE_FRONT_Z - BALL_RADIUS)) / velocity.z;
+  const path = (t: number) => {
+    const remaining = crossingTime - t;
+    return {
+      x: x - velocity.x * remaining,
+      y: y - velocity.y * remaining,
+      z: backZ - velocity.z * remaining,
+    };
+  };
+  return callPitch(path, crossingTime, zone).isStrike;
+};
+
+/**
+ * Spreads a pitch into a cloud of plate locations. Each pitch misses its spot
+ * by the command spread, then its velocity and break vary around the nominal
+ * pitch. A velocity change mostly changes the flight time, and gravity drop and
+ * break both grow with its square, so they are scaled by (v / v')^2 rather than
+ * re-solving every pitch.
+ */
+export const simulateCommand = (
+  draws: CommandDraw[],
+  command: CommandSettings,
+  pitch: CommandPitch,
+  zone: ZoneBounds
+): CommandCloud | null => {
+  if (draws.length < 2 || pitch.velocityMPH <= 0 || pitch.plateVelocity.z <= 0) return null;
+
+  const drop = 0.5 * GRAVITY * pitch.flightTime ** 2;
+  const ivb = pitch.inducedBreak.ivb * INCHES_TO_METERS;
+  const hb = pitch.inducedBreak.hb * INCHES_TO_METERS;
+
+  const points = draws.map(([missX, missY, dv, dIvb, dHb]) => {
+    const velocity = Math.max(pitch.velocityMPH + dv * command.velocityMph, 1);
+    const timeScale = (pitch.velocityMPH / velocity) ** 2;
+    const pitchIvb = ivb + dIvb * command.breakIn * INCHES_TO_METERS;
+    const pitchHb = hb + dHb * command.breakIn * INCHES_TO_METERS;
+    const x = pitch.target.x + missX * command.missXIn * INCHES_TO_METERS + pitchHb * timeScale - hb;
+    const y =
+      pitch.target.y +
+      missY * command.missYIn * INCHES_TO_METERS +
+      (pitchIvb - drop) * timeScale -
+      (ivb - drop);
+    return { x, y, inZone: touchesZone(x, y, pitch.plateVelocity, zone) };
+  });
+
+  return {
+    points,
+    ellipses: CONFIDENCE_LEVELS.map((level) => confidenceEllipse(points, level)),
+    inZoneRate: points.filter((p) => p.inZone).length / points.length,
+  };
+};
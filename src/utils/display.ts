@@ -0,0 +1,16 @@
+// Optional scene overlays, toggled from the display panel
+export interface DisplaySettings {
+  showNoSpinPath: boolean; // Spinless reference path with IVB/HB arrows at the plate
+  showLineOfSight: boolean; // Straight line from release to the plate location
+  showZoneGrid: boolean; // 3x3 zones with the shadow and chase regions
+  showField: boolean; // Mound, boxes, chalk lines and the pitcher
+  showBatter: boolean; // Batter silhouette in the box
+}
+
+export const DEFAULT_DISPLAY: DisplaySettings = {
+  showNoSpinPath: false,
+  showLineOfSight: false,
+  showZoneGrid: false,
+  showField: true,
+  showBatter: true,
+};
@@ -0,0 +1,79 @@
+import { FEET_TO_METERS } from "../constants";
+
+// Weather and ballpark conditions that change how the air acts on the ball
+export interface EnvironmentSettings {
+  temperatureF: number;
+  pressureSource: "elevation" | "barometer"; // Which of the two fields below sets the air pressure
+  elevationFt: number; // Ballpark elevation; pressure follows the standard atmosphere
+  pressureInHg: number; // Station (not sea-level corrected) barometric pressure
+  humidity: number; // Relative humidity, percent
+  windSpeedMph: number;
+  windDirection: number; // Degrees the wind blows towards, clockwise from above: 0 = out to center, 90 = towards right field
+}
+
+export interface Ballpark {
+  name: string;
+  elevationFt: number;
+}
+
+// Approximate field elevations
+export const BALLPARKS: Ballpark[] = [
+  { name: "Sea Level", elevationFt: 0 },
+  { name: "Oracle Park", elevationFt: 10 },
+  { name: "Fenway Park", elevationFt: 20 },
+  { name: "Yankee Stadium", elevationFt: 55 },
+  { name: "Dodger Stadium", elevationFt: 515 },
+  { name: "Wrigley Field", elevationFt: 595 },
+  { name: "Kauffman Stadium", elevationFt: 750 },
+  { name: "Truist Park", elevationFt: 1050 },
+  { name: "Chase Field", elevationFt: 1082 },
+  { name: "Coors Field", elevationFt: 5190 },
+];
+
+// Conditions the break inputs are defined at: 70°F, sea level, 50% humidity, no wind
+export const REFERENCE_ENVIRONMENT: EnvironmentSettings = {
+  temperatureF: 70,
+  pressureSource: "elevation",
+  elevationFt: 0,
+  pressureInHg: 29.92,
+  humidity: 50,
+  windSpeedMph: 0,
+  windDirection: 0,
+};
+
+const SEA_LEVEL_PRESSURE_PA = 101325;
+const PA_PER_IN_HG = 3386.389;
+const DRY_AIR_GAS_CONSTANT = 287.058; // J/(kg·K)
+const WATER_VAPOR_GAS_CONSTANT = 461.495; // J/(kg·K)
+const MPH_TO_MPS = 1609.344 / 3600;
+
+// Station pressure (Pa) from the chosen source
+export const airPressure = (env: EnvironmentSettings): number => {
+  if (env.pressureSource === "barometer") return env.pressureInHg * PA_PER_IN_HG;
+  // International standard atmosphere below the tropopause
+  const elevationM = env.elevationFt * FEET_TO_METERS;
+  return SEA_LEVEL_PRESSURE_PA * Math.pow(1 - 2.25577e-5 * elevationM, 5.25588);
+};
+
+/**
+ * Air density (kg/m^3) from temperature, pressure and humidity, treating the air
+ * as a mix of dry air and water vapor (saturation pressure from the Tetens formula).
+ */
+export const airDensity = (env: EnvironmentSettings): number => {
+  const tempC = ((env.temperatureF - 32) * 5) / 9;
+  const tempK = tempC + 273.15;
+  const saturationPressure = 610.78 * Math.exp((17.27 * tempC) / (tempC + 237.3));
+  const vaporPressure = (env.humidity / 100) * saturationPressure;
+  const dryPressure = airPressure(env) - vaporPressure;
+  return (
+    dryPressure / (DRY_AIR_GAS_CONSTANT * tempK) +
+    vaporPressure / (WATER_VAPOR_GAS_CONSTANT * tempK)
+  );
+};
+
+// Wind velocity (m/s) in scene coordinates; "out to center" blows towards the pitcher (-Z)
+export const windVelocity = (env: EnvironmentSettings): { x: number; y: number; z: number } => {
+  const speed = env.windSpeedMph * MPH_TO_MPS;
+  const direction = (env.windDirection * Math.PI) / 180;
+  return { x: speed * Math.sin(direction), y: 0, z: -speed * Math.cos(direction) };
+};
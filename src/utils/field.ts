@@ -0,0 +1,28 @@
+import {
+  FEET_TO_METERS,
+  INCHES_TO_METERS,
+  MOUND_CENTER_Z,
+  MOUND_HEIGHT,
+  MOUND_RADIUS,
+  RUBBER_Z,
+} from "../constants";
+
+/*
+ * Mound surface. Towards the plate it is flat to 6 in in front of the rubber,
+ * then falls 1 in per foot: the regulation 6 ft of slope, carried on at the same
+ * rate so it meets the grass at the plate-side edge of the 18 ft circle (10 in
+ * over 10 ft). Elsewhere the rim falls off over the outer 4 ft of the circle,
+ * which leaves the table around the rubber flat.
+ */
+const SLOPE_START_Z = RUBBER_Z + 6 * INCHES_TO_METERS;
+const SLOPE_PER_METER = INCHES_TO_METERS / FEET_TO_METERS; // 1 in per foot
+const RIM_WIDTH = 4 * FEET_TO_METERS;
+
+// Height of the mound surface at a point on the field (0 off the mound)
+export const moundHeightAt = (x: number, z: number): number => {
+  const r = Math.hypot(x, z - MOUND_CENTER_Z);
+  if (r >= MOUND_RADIUS) return 0;
+  const slope = MOUND_HEIGHT - Math.max(z - SLOPE_START_Z, 0) * SLOPE_PER_METER;
+  const rim = (MOUND_HEIGHT * (MOUND_RADIUS - r)) / RIM_WIDTH;
+  return Math.max(Math.min(slope, rim, MOUND_HEIGHT), 0);
+};
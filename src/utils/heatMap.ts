@@ -0,0 +1,66 @@
+import { INCHES_TO_METERS } from "../constants";
+import { PitchTypeCode } from "./pitchLibrary";
+import { ZoneRect } from "./strikeZone";
+
+export type HeatMapSource = "off" | "history" | "imported";
+
+export interface HeatMapSettings {
+  source: HeatMapSource;
+  pitchType: PitchTypeCode | "all";
+}
+
+export const DEFAULT_HEAT_MAP: HeatMapSettings = { source: "off", pitchType: "all" };
+
+// Where a pitch crossed the plate, meters
+export interface PitchLocation {
+  x: number;
+  y: number;
+  pitchType: PitchTypeCode | null;
+}
+
+// Smoothed pitch density over a rectangle; cell 0 is the bottom-left corner, rows run upwards
+export interface HeatMapGrid {
+  rect: ZoneRect;
+  columns: number;
+  rows: number;
+  density: Float32Array; // Scaled so the densest cell is 1
+  count: number; // Pitches behind the map
+}
+
+const CELL_SIZE = 1 * INCHES_TO_METERS;
+const BANDWIDTH = 2.5 * INCHES_TO_METERS; // Gaussian kernel; about a ball's width
+
+/**
+ * Kernel density of the locations over the rectangle. Returns null when there
+ * are no pitches to map.
+ */
+export const locationHeatMap = (locations: PitchLocation[], rect: ZoneRect): HeatMapGrid | null => {
+  if (locations.length === 0) return null;
+
+  const columns = Math.max(1, Math.round((rect.right - rect.left) / CELL_SIZE));
+  const rows = Math.max(1, Math.round((rect.top - rect.bottom) / CELL_SIZE));
+  const cellW = (rect.right - rect.left) / columns;
+  const cellH = (rect.top - rect.bottom) / rows;
+  const density = new Float32Array(columns * rows);
+  const reach = 3 * BANDWIDTH; // Kernel is negligible beyond 3 sigma
+
+  for (const location of locations) {
+    const c0 = Math.max(0, Math.floor((location.x - reach - rect.left) / cellW));
+    const c1 = Math.min(columns - 1, Math.floor((location.x + reach - rect.left) / cellW));
+    const r0 = Math.max(0, Math.floor((location.y - reach - rect.bottom) / cellH));
+    const r1 = Math.min(rows - 1, Math.floor((location.y + reach - rect.bottom) / cellH));
+    for (let r = r0; r <= r1; r++) {
+      const dy = rect.bottom + (r + 0.5) * cellH - location.y;
+      for (let c = c0; c <= c1; c++) {
+        const dx = rect.left + (c + 0.5) * cellW - location.x;
+        density[r * columns + c] += Math.exp(-(dx * dx + dy * dy) / (2 * BANDWIDTH * BANDWIDTH));
+      }
+    }
+  }
+
+  const max = density.reduce((m, v) => Math.max(m, v), 0);
+  if (max > 0) {
+    for (let i = 0; i < density.length; i++) density[i] /= max;
+  }
+  return { rect, columns, rows, density, count: locations.length };
+};
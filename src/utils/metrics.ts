@@ -0,0 +1,59 @@
+import { FEET_TO_METERS, PITCHING_DISTANCE, RUBBER_Z } from "../constants";
+
+type Vector3 = { x: number; y: number; z: number };
+
+const MPS_TO_MPH = 3600 / 1609.344;
+const RADIANS_TO_DEGREES = 180 / Math.PI;
+// Roughly the MLB average; pitches released further out look faster than this
+export const AVERAGE_EXTENSION_FT = 6.2;
+
+export interface PitchMetrics {
+  releaseSpeedMPH: number;
+  plateSpeedMPH: number;
+  perceivedVelocityMPH: number; // Release speed scaled for how close to the plate it was released
+  extensionFt: number; // Release distance in front of the rubber
+  timeToPlate: number; // seconds
+  // Angles in degrees. Vertical: positive is upward. Horizontal: positive is
+  // towards the catcher's right (the same sign as horizontal break).
+  verticalReleaseAngle: number;
+  horizontalReleaseAngle: number;
+  verticalApproachAngle: number; // At the front of the plate
+  horizontalApproachAngle: number;
+}
+
+// Angles of a velocity against the line from the mound to the plate (+Z)
+const verticalAngle = (v: Vector3) => Math.atan2(v.y, v.z) * RADIANS_TO_DEGREES;
+const horizontalAngle = (v: Vector3) => Math.atan2(v.x, v.z) * RADIANS_TO_DEGREES;
+
+const speed = (v: Vector3) => Math.hypot(v.x, v.y, v.z);
+
+/**
+ * Derived metrics for a solved flight. Perceived velocity is the speed a pitch
+ * released from the average extension would need to reach the plate in the same
+ * time, so a long stride adds "effective" mph.
+ */
+export const pitchMetrics = (trajectory: {
+  flightTime: number;
+  releasePoint: Vector3;
+  initialVelocity: Vector3;
+  frontOfPlateVelocity: Vector3;
+  plateSpeedMPH: number;
+}): PitchMetrics => {
+  const releaseSpeedMPH = speed(trajectory.initialVelocity) * MPS_TO_MPH;
+  const extensionFt = (trajectory.releasePoint.z - RUBBER_Z) / FEET_TO_METERS;
+  const pitchingDistanceFt = PITCHING_DISTANCE / FEET_TO_METERS;
+
+  return {
+    releaseSpeedMPH,
+    plateSpeedMPH: trajectory.plateSpeedMPH,
+    perceivedVelocityMPH:
+      (releaseSpeedMPH * (pitchingDistanceFt - AVERAGE_EXTENSION_FT)) /
+      (pitchingDistanceFt - extensionFt),
+    extensionFt,
+    timeToPlate: trajectory.flightTime,
+    verticalReleaseAngle: verticalAngle(trajectory.initialVelocity),
+    horizontalReleaseAngle: horizontalAngle(trajectory.initialVelocity),
+    verticalApproachAngle: verticalAngle(trajectory.frontOfPlateVelocity),
+    horizontalApproachAngle: horizontalAngle(trajectory.frontOfPlateVelocity),
+  };
+};
@@ -0,0 +1,32 @@
+import { PITCH_TYPES, PitchTypeCode } from "./pitchLibrary";
+import { Handedness } from "./release";
+
+// Typical spread of a pitch type's movement across the league
+export interface MovementDistribution {
+  type: PitchTypeCode;
+  ivb: number; // Mean, inches
+  hb: number; // Mean, inches, positive to the catcher's right
+  ivbSd: number; // One standard deviation, inches
+  hbSd: number;
+}
+
+// Right-handed standard deviations; the means are the library's typical values
+const MOVEMENT_SPREAD: Record<PitchTypeCode, { ivbSd: number; hbSd: number }> = {
+  FF: { ivbSd: 2.5, hbSd: 3 },
+  SI: { ivbSd: 3, hbSd: 3 },
+  FC: { ivbSd: 3, hbSd: 3 },
+  SL: { ivbSd: 3.5, hbSd: 3 },
+  ST: { ivbSd: 3, hbSd: 3 },
+  CU: { ivbSd: 3.5, hbSd: 4 },
+  CH: { ivbSd: 3.5, hbSd: 3 },
+  FS: { ivbSd: 3.5, hbSd: 3.5 },
+};
+
+// League movement for each pitch type, mirrored for left-handers
+export const leagueMovement = (handedness: Handedness): MovementDistribution[] =>
+  PITCH_TYPES.map((info) => ({
+    type: info.code,
+    ivb: info.ivb,
+    hb: handedness === "R" ? info.hb : -info.hb,
+    ...MOVEMENT_SPREAD[info.code],
+  }));
@@ -0,0 +1,33 @@
+import { PitchTypeCode } from "./pitchLibrary";
+import { PitchCall } from "./strikeZone";
+
+// A completed pitch kept for trails, ghosts and comparisons
+export interface ThrownPitch {
+  id: number;
+  pitchType: PitchTypeCode | null;
+  velocity: number; // MPH
+  ivb: number; // inches
+  hb: number; // inches
+  flightTime: number;
+  getPositionAtTime: (t: number) => { x: number; y: number; z: number };
+  path: [number, number, number][]; // Sampled flight for drawing
+  call: PitchCall;
+}
+
+export const DEFAULT_MAX_HISTORY = 5;
+const PATH_SAMPLE_INTERVAL = 0.005; // seconds
+
+// Samples a flight at a fixed interval, always including the final point
+export const samplePath = (
+  getPositionAtTime: (t: number) => { x: number; y: number; z: number },
+  flightTime: number
+): [number, number, number][] => {
+  const points: [number, number, number][] = [];
+  for (let t = 0; t < flightTime; t += PATH_SAMPLE_INTERVAL) {
+    const p = getPositionAtTime(t);
+    points.push([p.x, p.y, p.z]);
+  }
+  const end = getPositionAtTime(flightTime);
+  points.push([end.x, end.y, end.z]);
+  return points;
+};
@@ -0,0 +1,185 @@
+import { parseCsv } from "./csv";
+import { Handedness, ReleaseSettings } from "./release";
+
+export type ImportSource = "statcast" | "trackman";
+
+// One pitch from an imported export, normalized to the app's units and axes
+export interface ImportedPitch {
+  id: number;
+  source: ImportSource;
+  pitcher: string;
+  pitchType: string;
+  balls: number | null;
+  strikes: number | null;
+  result: string;
+  velocity: number; // MPH at release
+  ivb: number; // inches
+  hb: number; // inches, positive to the catcher's right
+  plateX: number; // feet, positive to the catcher's right
+  plateZ: number; // feet above the ground
+  handedness: Handedness | null;
+  release: ReleaseSettings | null; // Only when all three release columns are present
+}
+
+// A data row that could not be turned into a pitch
+export interface SkippedRow {
+  line: number; // 1-based row in the file, counting the header as row 1
+  reason: string;
+}
+
+export interface ImportResult {
+  source: ImportSource | null; // null when the columns matched neither format
+  pitches: ImportedPitch[];
+  skipped: SkippedRow[];
+}
+
+/*
+ * Column mappings. Savant reports movement (pfx_x/pfx_z) and locations in feet
+ * from the catcher's view. Trackman reports break in inches with HorzBreak
+ * positive towards the pitcher's arm side for a righty (the catcher's left), so
+ * its sign is flipped; PlateLocSide and RelSide are from the catcher's view.
+ */
+interface ColumnMapping {
+  required: string[]; // Columns that identify the format
+  pitcher: string;
+  pitchType: string[]; // First non-empty column wins
+  balls: string;
+  strikes: string;
+  result: string[];
+  velocity: string;
+  ivb: (value: number) => number;
+  ivbColumn: string;
+  hb: (value: number) => number;
+  hbColumn: string;
+  plateX: string;
+  plateZ: string;
+  throws: string;
+  releaseHeight: string;
+  releaseSide: string;
+  extension: string;
+}
+
+const MAPPINGS: Record<ImportSource, ColumnMapping> = {
+  statcast: {
+    required: ["release_speed", "pfx_x", "pfx_z", "plate_x", "plate_z"],
+    pitcher: "player_name",
+    pitchType: ["pitch_type"],
+    balls: "balls",
+    strikes: "strikes",
+    result: ["description", "events"],
+    velocity: "release_speed",
+    ivbColumn: "pfx_z",
+    ivb: (feet) => feet * 12,
+    hbColumn: "pfx_x",
+    hb: (feet) => feet * 12,
+    plateX: "plate_x",
+    plateZ: "plate_z",
+    throws: "p_throws",
+    releaseHeight: "release_pos_z",
+    releaseSide: "release_pos_x",
+    extension: "release_extension",
+  },
+  trackman: {
+    required: ["RelSpeed", "InducedVertBreak", "HorzBreak", "PlateLocSide", "PlateLocHeight"],
+    pitcher: "Pitcher",
+    pitchType: ["TaggedPitchType", "AutoPitchType"],
+    balls: "Balls",
+    strikes: "Strikes",
+    result: ["PitchCall", "PlayResult"],
+    velocity: "RelSpeed",
+    ivbColumn: "InducedVertBreak",
+    ivb: (inches) => inches,
+    hbColumn: "HorzBreak",
+    hb: (inches) => -inches,
+    plateX: "PlateLocSide",
+    plateZ: "PlateLocHeight",
+    throws: "PitcherThrows",
+    releaseHeight: "RelHeight",
+    releaseSide: "RelSide",
+    extension: "Extension",
+  },
+};
+
+const parseHandedness = (value: string | undefined): Handedness | null => {
+  const normalized = value?.trim().toUpperCase();
+  if (normalized === "R" || normalized === "RIGHT") return "R";
+  if (normalized === "L" || normalized === "LEFT") return "L";
+  return null;
+};
+
+const parseOptionalInt = (value: string | undefined): number | null => {
+  const parsed = parseInt(value ?? "", 10);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Parses a Savant/Statcast or Trackman CSV export. The format is detected from the
+ * header; rows missing velocity, break or plate location are reported as skipped.
+ */
+export const importPitchCsv = (text: string): ImportResult => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { source: null, pitches: [], skipped: [] };
+
+  const columns = new Map(header.map((name, i) => [name.trim(), i]));
+  const source = (Object.keys(MAPPINGS) as ImportSource[]).find((key) =>
+    MAPPINGS[key].required.every((column) => columns.has(column))
+  );
+  if (!source) return { source: null, pitches: [], skipped: [] };
+  const mapping = MAPPINGS[source];
+
+  const pitches: ImportedPitch[] = [];
+  const skipped: SkippedRow[] = [];
+
+  rows.forEach((row, index) => {
+    const line = index + 2; // Header is line 1
+    const get = (column: string): string | undefined => {
+      const i = columns.get(column);
+      return i === undefined ? undefined : row[i]?.trim();
+    };
+    const getNumber = (column: string): number => parseFloat(get(column) ?? "");
+    const firstOf = (names: string[]) => names.map(get).find((value) => value) ?? "";
+
+    const values = {
+      velocity: getNumber(mapping.velocity),
+      ivb: getNumber(mapping.ivbColumn),
+      hb: getNumber(mapping.hbColumn),
+      plateX: getNumber(mapping.plateX),
+      plateZ: getNumber(mapping.plateZ),
+    };
+    const invalid = Object.entries(values)
+      .filter(([, value]) => Number.isNaN(value))
+      .map(([name]) => name);
+    if (invalid.length > 0) {
+      skipped.push({ line, reason: `Missing or invalid ${invalid.join(", ")}` });
+      return;
+    }
+
+    const releaseValues = [mapping.releaseHeight, mapping.releaseSide, mapping.extension].map(getNumber);
+    const release = releaseValues.every((value) => !Number.isNaN(value))
+      ? { heightFt: releaseValues[0], sideFt: releaseValues[1], extensionFt: releaseValues[2] }
+      : null;
+
+    pitches.push({
+      id: pitches.length,
+      source,
+      pitcher: get(mapping.pitcher) || "Unknown",
+      pitchType: firstOf(mapping.pitchType) || "Unknown",
+      balls: parseOptionalInt(get(mapping.balls)),
+      strikes: parseOptionalInt(get(mapping.strikes)),
+      result: firstOf(mapping.result),
+      velocity: values.velocity,
+      ivb: mapping.ivb(values.ivb),
+      hb: mapping.hb(values.hb),
+      plateX: values.plateX,
+      plateZ: values.plateZ,
+      handedness: parseHandedness(get(mapping.throws)),
+      release,
+    });
+  });
+
+  return { source, pitches, skipped };
+};
+
+// "balls-strikes", or "?" when the export has no count
+export const formatCount = (pitch: ImportedPitch): string =>
+  pitch.balls === null || pitch.strikes === null ? "?" : `${pitch.balls}-${pitch.strikes}`;
@@ -0,0 +1,162 @@
+import { CommandSettings } from "./command";
+import { Handedness, ReleaseSettings } from "./release";
+
+// Statcast pitch type codes for the built-in pitch library
+export type PitchTypeCode = "FF" | "SI" | "FC" | "SL" | "ST" | "CU" | "CH" | "FS";
+
+export interface PitchTypeInfo {
+  code: PitchTypeCode;
+  name: string;
+  color: string; // Used wherever pitches are drawn by type
+  // Typical right-handed values; horizontal break is mirrored for lefties
+  velocity: number;
+  ivb: number;
+  hb: number;
+}
+
+export const PITCH_TYPES: PitchTypeInfo[] = [
+  { code: "FF", name: "4-Seam", color: "#d22d49", velocity: 94, ivb: 16, hb: -8 },
+  { code: "SI", name: "Sinker", color: "#fe9d00", velocity: 93, ivb: 8, hb: -15 },
+  { code: "FC", name: "Cutter", color: "#933f2c", velocity: 89, ivb: 9, hb: 3 },
+  { code: "SL", name: "Slider", color: "#eee716", velocity: 85, ivb: 2, hb: 5 },
+  { code: "ST", name: "Sweeper", color: "#ddb33a", velocity: 82, ivb: 0, hb: 15 },
+  { code: "CU", name: "Curveball", color: "#00d1ed", velocity: 79, ivb: -10, hb: 8 },
+  { code: "CH", name: "Changeup", color: "#1dbe3a", velocity: 86, ivb: 7, hb: -14 },
+  { code: "FS", name: "Splitter", color: "#3bacac", velocity: 86, ivb: 3, hb: -10 },
+];
+
+const OTHER_PITCH_COLOR = "#aaaaaa";
+
+// Other names for the built-in types used by Statcast codes and Trackman labels
+const PITCH_TYPE_ALIASES: Record<string, PitchTypeCode> = {
+  FASTBALL: "FF",
+  FOURSEAMFASTBALL: "FF",
+  TWOSEAMFASTBALL: "SI",
+  KC: "CU",
+  KNUCKLECURVE: "CU",
+  SV: "CU",
+  FO: "FS",
+};
+
+// Maps an imported pitch type label (code or name) onto a built-in type
+export const normalizePitchType = (label: string): PitchTypeCode | null => {
+  const key = label.replace(/[\s-]/g, "").toUpperCase();
+  const info = PITCH_TYPES.find(
+    (t) => t.code === key || t.name.replace(/[\s-]/g, "").toUpperCase() === key
+  );
+  return info?.code ?? PITCH_TYPE_ALIASES[key] ?? null;
+};
+
+// Color for a pitch type code or label; gray when unlabeled or unknown
+export const pitchTypeColor = (type: string | null): string => {
+  const code = type === null ? null : normalizePitchType(type);
+  return PITCH_TYPES.find((info) => info.code === code)?.color ?? OTHER_PITCH_COLOR;
+};
+
+// One pitch in a pitcher's arsenal
+export interface ArsenalPitch {
+  id: string;
+  type: PitchTypeCode;
+  velocity: number; // MPH
+  ivb: number; // inches
+  hb: number; // inches, positive to the catcher's right
+  release: ReleaseSettings;
+}
+
+export interface PitcherProfile {
+  id: string;
+  name: string;
+  handedness: Handedness;
+  arsenal: ArsenalPitch[];
+  command?: CommandSettings; // Loaded into the command panel when the pitcher is picked
+}
+
+// Everything picking a pitch writes into the controls
+export interface PitchSelection {
+  pitchType: PitchTypeCode;
+  velocity: number;
+  ivb: number;
+  hb: number;
+  handedness?: Handedness;
+  release?: ReleaseSettings;
+}
+
+export const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Built-in pitch values for a pitcher of the given hand
+export const builtInSelection = (info: PitchTypeInfo, handedness: Handedness): PitchSelection => ({
+  pitchType: info.code,
+  velocity: info.velocity,
+  ivb: info.ivb,
+  hb: handedness === "R" ? info.hb : -info.hb,
+});
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isRelease = (value: unknown): value is ReleaseSettings => {
+  const release = value as ReleaseSettings;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    isNumber(release.heightFt) &&
+    isNumber(release.sideFt) &&
+    isNumber(release.extensionFt)
+  );
+};
+
+const isCommand = (value: unknown): value is CommandSettings => {
+  const command = value as CommandSettings;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    isNumber(command.missXIn) &&
+    isNumber(command.missYIn) &&
+    isNumber(command.velocityMph) &&
+    isNumber(command.breakIn)
+  );
+};
+
+const isArsenalPitch = (value: unknown): value is ArsenalPitch => {
+  const pitch = value as ArsenalPitch;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    PITCH_TYPES.some((info) => info.code === pitch.type) &&
+    isNumber(pitch.velocity) &&
+    isNumber(pitch.ivb) &&
+    isNumber(pitch.hb) &&
+    isRelease(pitch.release)
+  );
+};
+
+/**
+ * Validates profiles read from localStorage or an imported JSON file. Throws
+ * if the data isn't a list of profiles; ids are kept when present.
+ */
+export const parseProfiles = (data: unknown): PitcherProfile[] => {
+  if (!Array.isArray(data)) throw new Error("Expected a list of pitcher profiles");
+  return data.map((entry, index) => {
+    const profile = entry as PitcherProfile;
+    if (
+      typeof profile?.name !== "string" ||
+      (profile.handedness !== "R" && profile.handedness !== "L") ||
+      !Array.isArray(profile.arsenal) ||
+      !profile.arsenal.every(isArsenalPitch) ||
+      (profile.command !== undefined && !isCommand(profile.command))
+    ) {
+      throw new Error(`Profile ${index + 1} is not a valid pitcher profile`);
+    }
+    return {
+      id: typeof profile.id === "string" ? profile.id : createId(),
+      name: profile.name,
+      handedness: profile.handedness,
+      arsenal: profile.arsenal.map((pitch) => ({
+        ...pitch,
+        id: typeof pitch.id === "string" ? pitch.id : createId(),
+      })),
+      command: profile.command,
+    };
+  });
+};
@@ -0,0 +1,32 @@
+type Listener = (time: number) => void;
+
+/*
+ * Time since release of the ball on screen, in seconds. It advances every
+ * frame while a pitch plays, so it lives outside React state: the scene reads
+ * it inside useFrame and the playback bar subscribes to it, and nothing
+ * re-renders per frame.
+ */
+export interface PlaybackClock {
+  get: () => number;
+  set: (time: number) => void;
+  subscribe: (listener: Listener) => () => void; // Returns an unsubscribe function
+}
+
+export const createPlaybackClock = (): PlaybackClock => {
+  let time = 0;
+  const listeners = new Set<Listener>();
+  return {
+    get: () => time,
+    set: (value) => {
+      if (value === time) return;
+      time = value;
+      listeners.forEach((listener) => listener(time));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,27 @@
+import { FEET_TO_METERS, RUBBER_Z } from "../constants";
+
+export type Handedness = "R" | "L";
+
+// Where the pitcher lets go of the ball, in the units scouts use
+export interface ReleaseSettings {
+  heightFt: number; // Height above the ground
+  sideFt: number; // Horizontal offset from the center line, positive to the catcher's right
+  extensionFt: number; // Distance in front of the rubber
+}
+
+export const DEFAULT_RELEASE_HEIGHT_FT = 6.0;
+export const DEFAULT_RELEASE_SIDE_FT = 2.0; // Magnitude; the sign follows handedness
+export const DEFAULT_EXTENSION_FT = 5.5;
+
+// A right-hander releases from the catcher's left (-X), a left-hander from the right
+export const defaultReleaseSide = (handedness: Handedness): number =>
+  handedness === "R" ? -DEFAULT_RELEASE_SIDE_FT : DEFAULT_RELEASE_SIDE_FT;
+
+// Converts release settings to the release point in scene coordinates (meters)
+export const releasePointFromSettings = (
+  release: ReleaseSettings
+): { x: number; y: number; z: number } => ({
+  x: release.sideFt * FEET_TO_METERS,
+  y: release.heightFt * FEET_TO_METERS,
+  z: RUBBER_Z + release.extensionFt * FEET_TO_METERS,
+});
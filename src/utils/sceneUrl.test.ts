@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_BATTER } from "./batter";
+import { DEFAULT_DISPLAY } from "./display";
+import { REFERENCE_ENVIRONMENT } from "./environment";
+import { SceneState, decodeSceneState, encodeSceneState } from "./sceneUrl";
+
+const DEFAULTS: SceneState = {
+  pitchType: "FF",
+  velocity: 95,
+  ivb: 15,
+  hb: -8,
+  inputMode: "break",
+  spinRate: 2300,
+  spinTilt: 28,
+  gyroAngle: 0,
+  handedness: "R",
+  release: { heightFt: 6, sideFt: -2, extensionFt: 5.5 },
+  batter: DEFAULT_BATTER,
+  environment: REFERENCE_ENVIRONMENT,
+  statcastPitch: null,
+  target: { x: 0, y: 0.775 },
+  display: DEFAULT_DISPLAY,
+  camera: { presetId: "catcher", view: null },
+};
+
+// A left-handed curveball at Coors, replaying a Statcast fit, seen from the side
+const SCENE: SceneState = {
+  pitchType: "CU",
+  velocity: 79.5,
+  ivb: -10.3,
+  hb: 8,
+  inputMode: "spin",
+  spinRate: 2650,
+  spinTilt: 217.5,
+  gyroAngle: -20,
+  handedness: "L",
+  release: { heightFt: 5.8, sideFt: 2.3, extensionFt: 6.1 },
+  batter: { side: "L", heightIn: 70, crouch: 0.15, szTopFt: 3.4, szBotFt: null },
+  environment: {
+    temperatureF: 88,
+    pressureSource: "barometer",
+    elevationFt: 5190,
+    pressureInHg: 24.9,
+    humidity: 20,
+    windSpeedMph: 8,
+    windDirection: 270,
+  },
+  statcastPitch: {
+    release_pos_x: 2.3,
+    release_pos_z: 5.8,
+    release_extension: 6.1,
+    vx0: -4.1,
+    vy0: -115.2,
+    vz0: 2.7,
+    ax: 7.3,
+    ay: 22.1,
+    az: -42.6,
+    plate_x: -0.45,
+    plate_z: 1.9,
+  },
+  target: { x: -0.1372, y: 0.5791 },
+  display: { ...DEFAULT_DISPLAY, showZoneGrid: true, showBatter: false },
+  camera: {
+    presetId: "side",
+    view: { position: [7, 1.2, -9.2], target: [0, 1, -9.2], fov: 75 },
+  },
+};
+
+describe("scene URLs", () => {
+  it("restores an encoded scene exactly", () => {
+    expect(decodeSceneState(encodeSceneState(SCENE), DEFAULTS)).toEqual(SCENE);
+    expect(decodeSceneState(`#${encodeSceneState(DEFAULTS)}`, DEFAULTS)).toEqual(DEFAULTS);
+  });
+
+  it("keeps opening version 1 links", () => {
+    // Written by the first version of the format; must never stop decoding
+    const link =
+      "v=1&velo=88&ivb=2.5&hb=6&mode=break&rpm=2400&tilt=150&gyro=35&hand=R" +
+      "&rh=5.9&rs=-1.8&ext=6.4&bs=R&bh=76&bc=0.1&szb=1.6&tf=70&ps=elevation&elev=0" +
+      "&inhg=29.92&hum=50&ws=0&wd=0&tx=0.2&ty=0.6&show=field,sight&cam=catcher";
+    const scene = decodeSceneState(link, DEFAULTS);
+    expect(scene).toMatchObject({
+      pitchType: null,
+      velocity: 88,
+      ivb: 2.5,
+      hb: 6,
+      release: { heightFt: 5.9, sideFt: -1.8, extensionFt: 6.4 },
+      batter: { heightIn: 76, szTopFt: null, szBotFt: 1.6 },
+      statcastPitch: null,
+      target: { x: 0.2, y: 0.6 },
+      camera: { presetId: "catcher", view: null },
+    });
+    expect(scene?.display).toEqual({
+      showNoSpinPath: false,
+      showLineOfSight: true,
+      showZoneGrid: false,
+      showField: true,
+      showBatter: false,
+    });
+  });
+
+  it("falls back to the defaults for missing or malformed values", () => {
+    const scene = decodeSceneState("v=1&velo=fast&hand=X&ivb=&cp=1,2,3&tx=0.3", DEFAULTS);
+    expect(scene).toEqual({ ...DEFAULTS, pitchType: null, target: { x: 0.3, y: 0.775 } });
+  });
+
+  it("ignores fragments without a scene or from a newer version", () => {
+    expect(decodeSceneState("", DEFAULTS)).toBeNull();
+    expect(decodeSceneState("#section", DEFAULTS)).toBeNull();
+    expect(decodeSceneState("v=99&velo=90", DEFAULTS)).toBeNull();
+  });
+});
@@ -0,0 +1,245 @@
+import { BatterSettings } from "./batter";
+import { CameraView } from "./cameraPresets";
+import { DisplaySettings } from "./display";
+import { EnvironmentSettings } from "./environment";
+import { PITCH_TYPES, PitchTypeCode } from "./pitchLibrary";
+import { Handedness, ReleaseSettings } from "./release";
+import { PitchInputMode } from "./spin";
+import { STATCAST_FIELDS, StatcastPitch } from "./statcast";
+
+// The pitch and the conditions it is thrown in, apart from how it's viewed
+export interface PitchSetup {
+  pitchType: PitchTypeCode | null;
+  velocity: number;
+  ivb: number;
+  hb: number;
+  inputMode: PitchInputMode;
+  spinRate: number;
+  spinTilt: number;
+  gyroAngle: number;
+  handedness: Handedness;
+  release: ReleaseSettings;
+  batter: BatterSettings;
+  environment: EnvironmentSettings;
+  statcastPitch: StatcastPitch | null;
+  target: { x: number; y: number }; // Meters on the target plane
+}
+
+// Everything a shared link restores
+export interface SceneState extends PitchSetup {
+  display: DisplaySettings;
+  camera: {
+    presetId: string; // Last preset picked
+    view: CameraView | null; // Exact pose; null follows the preset (the catcher view)
+  };
+}
+
+/*
+ * Scenes are stored in the URL fragment as short key=value pairs, e.g.
+ * "#v=1&pt=FF&velo=95&ivb=15&hb=-8...". The "v" key is the format version;
+ * every version keeps its decoder so old links still open after the format
+ * changes. Change the format by adding a version, never by editing one.
+ */
+export const SCENE_URL_VERSION = 1;
+
+// Short names for the display toggles, listed in "show" when on
+const DISPLAY_FLAGS: Record<keyof DisplaySettings, string> = {
+  showNoSpinPath: "nospin",
+  showLineOfSight: "sight",
+  showZoneGrid: "grid",
+  showField: "field",
+  showBatter: "batter",
+};
+
+// Toggles that existed when version 1 was written; left out of "show" they were off
+const VERSION_1_DISPLAY_FLAGS: (keyof DisplaySettings)[] = [
+  "showNoSpinPath",
+  "showLineOfSight",
+  "showZoneGrid",
+  "showField",
+  "showBatter",
+];
+
+// Four decimals keeps targets to a tenth of a millimeter without long links
+const formatNumber = (value: number): string => String(Math.round(value * 1e4) / 1e4);
+const formatList = (values: number[]): string => values.map(formatNumber).join(",");
+
+/** Encodes a scene as a URL fragment (without the leading "#"). */
+export const encodeSceneState = (scene: SceneState): string => {
+  const entries: [string, string][] = [["v", String(SCENE_URL_VERSION)]];
+  const add = (key: string, value: string | number) =>
+    entries.push([key, typeof value === "number" ? formatNumber(value) : value]);
+
+  if (scene.pitchType) add("pt", scene.pitchType);
+  add("velo", scene.velocity);
+  add("ivb", scene.ivb);
+  add("hb", scene.hb);
+  add("mode", scene.inputMode);
+  add("rpm", scene.spinRate);
+  add("tilt", scene.spinTilt);
+  add("gyro", scene.gyroAngle);
+
+  add("hand", scene.handedness);
+  add("rh", scene.release.heightFt);
+  add("rs", scene.release.sideFt);
+  add("ext", scene.release.extensionFt);
+
+  add("bs", scene.batter.side);
+  add("bh", scene.batter.heightIn);
+  add("bc", scene.batter.crouch);
+  if (scene.batter.szTopFt !== null) add("szt", scene.batter.szTopFt);
+  if (scene.batter.szBotFt !== null) add("szb", scene.batter.szBotFt);
+
+  add("tf", scene.environment.temperatureF);
+  add("ps", scene.environment.pressureSource);
+  add("elev", scene.environment.elevationFt);
+  add("inhg", scene.environment.pressureInHg);
+  add("hum", scene.environment.humidity);
+  add("ws", scene.environment.windSpeedMph);
+  add("wd", scene.environment.windDirection);
+
+  const statcastPitch = scene.statcastPitch;
+  if (statcastPitch) add("sc", formatList(STATCAST_FIELDS.map((field) => statcastPitch[field])));
+
+  add("tx", scene.target.x);
+  add("ty", scene.target.y);
+
+  const shown = (Object.keys(DISPLAY_FLAGS) as (keyof DisplaySettings)[]).filter(
+    (key) => scene.display[key]
+  );
+  add("show", shown.map((key) => DISPLAY_FLAGS[key]).join(","));
+
+  add("cam", scene.camera.presetId);
+  const view = scene.camera.view;
+  if (view) add("cp", formatList([...view.position, ...view.target, view.fov]));
+
+  // Commas are legal in a fragment and keep the lists readable
+  return entries
+    .map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%2C/g, ",")}`)
+    .join("&");
+};
+
+// Readers that fall back to the defaults for missing or malformed values
+const readNumber = (params: URLSearchParams, key: string, fallback: number): number => {
+  const raw = params.get(key);
+  const value = raw === null || raw.trim() === "" ? NaN : Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const readOptionalNumber = (params: URLSearchParams, key: string): number | null => {
+  const value = readNumber(params, key, NaN);
+  return Number.isNaN(value) ? null : value;
+};
+
+const readChoice = <T extends string>(
+  params: URLSearchParams,
+  key: string,
+  choices: readonly T[],
+  fallback: T
+): T => {
+  const raw = params.get(key);
+  return choices.find((choice) => choice === raw) ?? fallback;
+};
+
+// A comma-separated list of exactly `count` numbers, or null
+const readList = (params: URLSearchParams, key: string, count: number): number[] | null => {
+  const values = params.get(key)?.split(",").map(Number);
+  return values && values.length === count && values.every(Number.isFinite) ? values : null;
+};
+
+const HANDS: Handedness[] = ["R", "L"];
+
+const readStatcastPitch = (params: URLSearchParams): StatcastPitch | null => {
+  const values = readList(params, "sc", STATCAST_FIELDS.length);
+  if (!values) return null;
+  const pitch = {} as StatcastPitch;
+  STATCAST_FIELDS.forEach((field, i) => {
+    pitch[field] = values[i];
+  });
+  return pitch;
+};
+
+// Listed toggles are on; a newer toggle the link doesn't mention keeps its default
+const readDisplay = (params: URLSearchParams, defaults: DisplaySettings): DisplaySettings => {
+  const shown = params.get("show")?.split(",");
+  if (!shown) return defaults;
+  const display = { ...defaults };
+  for (const key of Object.keys(DISPLAY_FLAGS) as (keyof DisplaySettings)[]) {
+    if (shown.includes(DISPLAY_FLAGS[key])) display[key] = true;
+    else if (VERSION_1_DISPLAY_FLAGS.includes(key)) display[key] = false;
+  }
+  return display;
+};
+
+const decodeVersion1 = (params: URLSearchParams, defaults: SceneState): SceneState => {
+  const pose = readList(params, "cp", 7);
+
+  return {
+    pitchType: PITCH_TYPES.find((info) => info.code === params.get("pt"))?.code ?? null,
+    velocity: readNumber(params, "velo", defaults.velocity),
+    ivb: readNumber(params, "ivb", defaults.ivb),
+    hb: readNumber(params, "hb", defaults.hb),
+    inputMode: readChoice(params, "mode", ["break", "spin"], defaults.inputMode),
+    spinRate: readNumber(params, "rpm", defaults.spinRate),
+    spinTilt: readNumber(params, "tilt", defaults.spinTilt),
+    gyroAngle: readNumber(params, "gyro", defaults.gyroAngle),
+    handedness: readChoice(params, "hand", HANDS, defaults.handedness),
+    release: {
+      heightFt: readNumber(params, "rh", defaults.release.heightFt),
+      sideFt: readNumber(params, "rs", defaults.release.sideFt),
+      extensionFt: readNumber(params, "ext", defaults.release.extensionFt),
+    },
+    batter: {
+      side: readChoice(params, "bs", HANDS, defaults.batter.side),
+      heightIn: readNumber(params, "bh", defaults.batter.heightIn),
+      crouch: readNumber(params, "bc", defaults.batter.crouch),
+      szTopFt: readOptionalNumber(params, "szt"),
+      szBotFt: readOptionalNumber(params, "szb"),
+    },
+    environment: {
+      temperatureF: readNumber(params, "tf", defaults.environment.temperatureF),
+      pressureSource: readChoice(
+        params,
+        "ps",
+        ["elevation", "barometer"],
+        defaults.environment.pressureSource
+      ),
+      elevationFt: readNumber(params, "elev", defaults.environment.elevationFt),
+      pressureInHg: readNumber(params, "inhg", defaults.environment.pressureInHg),
+      humidity: readNumber(params, "hum", defaults.environment.humidity),
+      windSpeedMph: readNumber(params, "ws", defaults.environment.windSpeedMph),
+      windDirection: readNumber(params, "wd", defaults.environment.windDirection),
+    },
+    statcastPitch: readStatcastPitch(params),
+    target: {
+      x: readNumber(params, "tx", defaults.target.x),
+      y: readNumber(params, "ty", defaults.target.y),
+    },
+    display: readDisplay(params, defaults.display),
+    camera: {
+      presetId: params.get("cam") || defaults.camera.presetId,
+      view: pose
+        ? {
+            position: [pose[0], pose[1], pose[2]],
+            target: [pose[3], pose[4], pose[5]],
+            fov: pose[6],
+          }
+        : null,
+    },
+  };
+};
+
+const DECODERS: Record<number, (params: URLSearchParams, defaults: SceneState) => SceneState> = {
+  1: decodeVersion1,
+};
+
+/**
+ * Decodes a URL fragment (with or without the leading "#"). Values that are
+ * missing or malformed fall back to the defaults. Returns null when the
+ * fragment holds no scene, or one from a newer version of the app.
+ */
+export const decodeSceneState = (fragment: string, defaults: SceneState): SceneState | null => {
+  const params = new URLSearchParams(fragment.replace(/^#/, ""));
+  const decode = DECODERS[Number(params.get("v"))];
+  return decode ? decode(params, defaults) : null;
+};
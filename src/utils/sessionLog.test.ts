@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_BATTER } from "./batter";
+import { parseCsv } from "./csv";
+import { REFERENCE_ENVIRONMENT } from "./environment";
+import { SessionPitch, sampleTrajectory, sessionCsv, sessionJson, trajectoryCsv } from "./sessionLog";
+
+// Straight line at 40 m/s towards the plate
+const line = (t: number) => ({ x: 0.1 * t, y: 1.8 - t, z: -17 + 40 * t });
+
+const PITCH: SessionPitch = {
+  id: "abc-123",
+  timestamp: Date.UTC(2026, 3, 1, 19, 5, 0),
+  setup: {
+    pitchType: "SL",
+    velocity: 86,
+    ivb: 2,
+    hb: 5,
+    inputMode: "break",
+    spinRate: 2500,
+    spinTilt: 270,
+    gyroAngle: 0,
+    handedness: "R",
+    release: { heightFt: 5.9, sideFt: -2.1, extensionFt: 6.2 },
+    batter: DEFAULT_BATTER,
+    environment: REFERENCE_ENVIRONMENT,
+    statcastPitch: null,
+    target: { x: 0.2, y: 0.6 },
+  },
+  releaseSpeedMPH: 86,
+  flightTime: 0.425,
+  plate: { x: 0.21, y: 0.59 },
+  call: { isStrike: true, zone: 9, zoneLabel: "Low Right", edgeDistance: -0.04 },
+  trajectory: sampleTrajectory(line, 0.425),
+};
+
+describe("sampleTrajectory", () => {
+  it("samples every 10 ms and ends at the plate", () => {
+    const samples = sampleTrajectory(line, 0.425);
+    expect(samples).toHaveLength(44);
+    expect(samples[1][0]).toBeCloseTo(0.01, 10);
+    expect(samples[samples.length - 1]).toEqual([0.425, ...Object.values(line(0.425))]);
+  });
+});
+
+describe("session exports", () => {
+  it("writes one CSV row per pitch", () => {
+    const [header, ...rows] = parseCsv(sessionCsv([PITCH, { ...PITCH, id: "def-456" }]));
+    expect(rows).toHaveLength(2);
+    const row = Object.fromEntries(header.map((name, i) => [name, rows[0][i]]));
+    expect(row).toMatchObject({
+      id: "abc-123",
+      timestamp: "2026-04-01T19:05:00.000Z",
+      pitch_type: "SL",
+      input_mode: "break",
+      release_speed_mph: "86",
+      plate_x_m: "0.21",
+      call: "strike",
+      zone: "9",
+    });
+  });
+
+  it("writes one trajectory CSV row per sample", () => {
+    const [header, ...rows] = parseCsv(trajectoryCsv([PITCH]));
+    expect(header).toEqual(["id", "t_s", "x_m", "y_m", "z_m"]);
+    expect(rows).toHaveLength(PITCH.trajectory.length);
+    expect(rows[0].map(Number).slice(1)).toEqual(PITCH.trajectory[0]);
+  });
+
+  it("keeps everything, trajectories included, in the JSON", () => {
+    expect(JSON.parse(sessionJson([PITCH])).pitches).toEqual([PITCH]);
+  });
+});
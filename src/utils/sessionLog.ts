@@ -0,0 +1,89 @@
+import { toCsv } from "./csv";
+import { PitchSetup } from "./sceneUrl";
+import { PitchCall } from "./strikeZone";
+
+type Vector3 = { x: number; y: number; z: number };
+
+// One press of "Throw" over the session
+export interface SessionPitch {
+  id: string;
+  timestamp: number; // ms since the epoch
+  setup: PitchSetup; // Everything needed to throw it again
+  releaseSpeedMPH: number; // Solved, so also right in spin mode or for a Statcast fit
+  flightTime: number; // seconds
+  plate: { x: number; y: number }; // Where it crosses the target plane (meters)
+  call: PitchCall;
+  trajectory: [number, number, number, number][]; // [t, x, y, z] in seconds and meters
+}
+
+const TRAJECTORY_SAMPLE_INTERVAL = 0.01; // seconds
+
+// Samples a flight every 10 ms for export, always including the final point
+export const sampleTrajectory = (
+  getPositionAtTime: (t: number) => Vector3,
+  flightTime: number
+): [number, number, number, number][] => {
+  const samples: [number, number, number, number][] = [];
+  const count = Math.ceil(flightTime / TRAJECTORY_SAMPLE_INTERVAL);
+  for (let i = 0; i <= count; i++) {
+    const t = Math.min(i * TRAJECTORY_SAMPLE_INTERVAL, flightTime);
+    const p = getPositionAtTime(t);
+    samples.push([t, p.x, p.y, p.z]);
+  }
+  return samples;
+};
+
+// Summary columns of the session CSV, one row per pitch
+const SESSION_COLUMNS: [string, (pitch: SessionPitch) => string | number][] = [
+  ["id", (p) => p.id],
+  ["timestamp", (p) => new Date(p.timestamp).toISOString()],
+  ["pitch_type", (p) => p.setup.pitchType ?? ""],
+  ["input_mode", (p) => (p.setup.statcastPitch ? "statcast" : p.setup.inputMode)],
+  ["velocity_mph", (p) => p.setup.velocity],
+  ["ivb_in", (p) => p.setup.ivb],
+  ["hb_in", (p) => p.setup.hb],
+  ["spin_rpm", (p) => p.setup.spinRate],
+  ["spin_tilt_deg", (p) => p.setup.spinTilt],
+  ["gyro_deg", (p) => p.setup.gyroAngle],
+  ["p_throws", (p) => p.setup.handedness],
+  ["release_height_ft", (p) => p.setup.release.heightFt],
+  ["release_side_ft", (p) => p.setup.release.sideFt],
+  ["extension_ft", (p) => p.setup.release.extensionFt],
+  ["stand", (p) => p.setup.batter.side],
+  ["temperature_f", (p) => p.setup.environment.temperatureF],
+  ["elevation_ft", (p) => p.setup.environment.elevationFt],
+  ["humidity_pct", (p) => p.setup.environment.humidity],
+  ["wind_mph", (p) => p.setup.environment.windSpeedMph],
+  ["wind_direction_deg", (p) => p.setup.environment.windDirection],
+  ["target_x_m", (p) => p.setup.target.x],
+  ["target_y_m", (p) => p.setup.target.y],
+  ["release_speed_mph", (p) => p.releaseSpeedMPH],
+  ["flight_time_s", (p) => p.flightTime],
+  ["plate_x_m", (p) => p.plate.x],
+  ["plate_y_m", (p) => p.plate.y],
+  ["call", (p) => (p.call.isStrike ? "strike" : "ball")],
+  ["zone", (p) => p.call.zone],
+  ["edge_distance_m", (p) => p.call.edgeDistance],
+];
+
+// One row per pitch
+export const sessionCsv = (pitches: SessionPitch[]): string =>
+  toCsv([
+    SESSION_COLUMNS.map(([header]) => header),
+    ...pitches.map((pitch) => SESSION_COLUMNS.map(([, value]) => value(pitch))),
+  ]);
+
+// One row per trajectory sample, keyed by the pitch id
+export const trajectoryCsv = (pitches: SessionPitch[]): string =>
+  toCsv([
+    ["id", "t_s", "x_m", "y_m", "z_m"],
+    ...pitches.flatMap((pitch) => pitch.trajectory.map((sample) => [pitch.id, ...sample])),
+  ]);
+
+// Scene axes, spelled out for whoever reads the export
+const COORDINATES =
+  "meters; x to the catcher's right, y up, z towards the catcher; front edge of the plate at z = 0";
+
+// The whole log, trajectories included
+export const sessionJson = (pitches: SessionPitch[]): string =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), coordinates: COORDINATES, pitches }, null, 2);
@@ -0,0 +1,59 @@
+// Spin description as pitchers and tracking systems report it
+export interface SpinSettings {
+  rpm: number; // Total spin rate
+  tilt: number; // Spin direction in degrees clockwise from 12:00 (see below)
+  gyro: number; // Gyro angle in degrees; 0 = all spin produces movement, ±90 = pure bullet spin
+}
+
+// Which set of pitch inputs the user is editing in PitchControls
+export type PitchInputMode = "break" | "spin";
+
+const DEGREES_PER_CLOCK_MINUTE = 360 / (12 * 60);
+
+/*
+ * Tilt is read like a clock hand pointing in the direction the spin pushes the
+ * ball, viewed from behind the pitcher: 12:00 is pure backspin (straight up),
+ * 3:00 pushes towards the pitcher's right, i.e. the catcher's left (-X in the scene).
+ */
+
+// Parses "h:mm" into degrees; returns null for anything that isn't a valid clock time
+export const parseTilt = (text: string): number | null => {
+  const match = /^\s*(\d{1,2}):(\d{2})\s*$/.exec(text);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours < 1 || hours > 12 || minutes > 59) return null;
+  return ((hours % 12) * 60 + minutes) * DEGREES_PER_CLOCK_MINUTE;
+};
+
+// Formats degrees as "h:mm", rounded to the nearest minute
+export const formatTilt = (degrees: number): string => {
+  const totalMinutes = Math.round(degrees / DEGREES_PER_CLOCK_MINUTE);
+  const wrapped = ((totalMinutes % 720) + 720) % 720;
+  const hours = Math.floor(wrapped / 60) || 12;
+  const minutes = wrapped % 60;
+  return `${hours}:${minutes.toString().padStart(2, "0")}`;
+};
+
+// Angle (radians, from +X towards +Y) of the movement a tilt produces in the scene's X/Y plane
+export const tiltToMovementAngle = (tiltDegrees: number): number => {
+  const tilt = (tiltDegrees * Math.PI) / 180;
+  return Math.atan2(Math.cos(tilt), -Math.sin(tilt));
+};
+
+// Tilt (degrees) of the spin that produces the given break (HB positive to the catcher's right)
+export const breakToTilt = (ivb: number, hb: number): number => {
+  const degrees = (Math.atan2(-hb, ivb) * 180) / Math.PI;
+  return (degrees + 360) % 360;
+};
+
+// Fraction of the spin that is transverse to the flight path and so produces movement
+export const spinEfficiency = (gyroDegrees: number): number =>
+  Math.cos((gyroDegrees * Math.PI) / 180);
+
+// Gyro angle for an efficiency (0-1), keeping the sign of the current gyro angle
+export const gyroForEfficiency = (efficiency: number, currentGyro: number): number => {
+  const clamped = Math.max(0, Math.min(1, efficiency));
+  const gyro = (Math.acos(clamped) * 180) / Math.PI;
+  return currentGyro < 0 ? -gyro : gyro;
+};
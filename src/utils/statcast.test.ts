@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { parseStatcastText } from "./statcast";
+
+const PITCH = {
+  release_pos_x: -1.85,
+  release_pos_z: 5.92,
+  release_extension: 6.6,
+  vx0: 6.1,
+  vy0: -138.2,
+  vz0: -5.4,
+  ax: -11.3,
+  ay: 29.8,
+  az: -14.2,
+  plate_x: 0.12,
+  plate_z: 2.61,
+};
+
+describe("parseStatcastText", () => {
+  it("reads a Savant row whose quoted player name holds a comma", () => {
+    const header = ["pitch_type", "player_name", ...Object.keys(PITCH)].join(",");
+    const row = ["FF", '"Cole, Gerrit"', ...Object.values(PITCH)].join(",");
+    expect(parseStatcastText(`${header}\n${row}\n`)).toEqual({ pitch: PITCH });
+  });
+
+  it("reads name: value lines and JSON", () => {
+    const lines = Object.entries(PITCH)
+      .map(([name, value]) => `${name}: ${value}`)
+      .join("\n");
+    expect(parseStatcastText(lines)).toEqual({ pitch: PITCH });
+    expect(parseStatcastText(JSON.stringify(PITCH))).toEqual({ pitch: PITCH });
+  });
+
+  it("lists missing and non-numeric fields", () => {
+    const result = parseStatcastText("release_pos_x,vx0\nabc,1");
+    expect(result).toHaveProperty("errors");
+    expect("errors" in result && result.errors).toContain("release_pos_x is not a number");
+    expect("errors" in result && result.errors).toContain("Missing vy0");
+  });
+});
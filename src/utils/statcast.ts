@@ -0,0 +1,166 @@
+import { FEET_TO_METERS, PITCHING_DISTANCE, PLATE_BACK_POINT_Z } from "../constants";
+import { parseCsv } from "./csv";
+
+/*
+ * Statcast's 9-parameter fit describes a pitch with constant acceleration.
+ * Its axes are in feet from the catcher's view: x to the catcher's right, y from
+ * the back point of home plate towards the pitcher, z up. Velocity (vx0/vy0/vz0)
+ * is given where the ball passes y = 50 ft; plate_x/plate_z where it crosses the
+ * front of the plate (y = 17 in).
+ */
+export interface StatcastPitch {
+  release_pos_x: number;
+  release_pos_z: number;
+  release_extension: number;
+  vx0: number;
+  vy0: number;
+  vz0: number;
+  ax: number;
+  ay: number;
+  az: number;
+  plate_x: number;
+  plate_z: number;
+}
+
+export const STATCAST_FIELDS: (keyof StatcastPitch)[] = [
+  "release_pos_x",
+  "release_pos_z",
+  "release_extension",
+  "vx0",
+  "vy0",
+  "vz0",
+  "ax",
+  "ay",
+  "az",
+  "plate_x",
+  "plate_z",
+];
+
+// A typical right-handed four-seam fastball
+export const SAMPLE_STATCAST_PITCH: StatcastPitch = {
+  release_pos_x: -1.99,
+  release_pos_z: 6.14,
+  release_extension: 6.5,
+  vx0: 6.2,
+  vy0: -137.0,
+  vz0: -6.5,
+  ax: -11.5,
+  ay: 29.5,
+  az: -14.0,
+  plate_x: -0.3,
+  plate_z: 2.6,
+};
+
+// Pitch state in scene coordinates (meters, Y up, +Z towards the catcher)
+export interface StatcastKinematics {
+  releasePoint: { x: number; y: number; z: number };
+  releaseVelocity: { x: number; y: number; z: number };
+  acceleration: { x: number; y: number; z: number };
+  releaseMismatch: number; // Feet between the fit at release and release_pos_x/z
+}
+
+const FIT_Y_FT = 50; // Where vx0/vy0/vz0 are measured
+const PLATE_FRONT_Y_FT = 17 / 12; // Where plate_x/plate_z are measured
+const PITCHING_DISTANCE_FT = PITCHING_DISTANCE / FEET_TO_METERS;
+
+// Time (s, relative to y = 50 ft) at which the fit reaches distance y, or null if never
+const timeAtY = (pitch: StatcastPitch, yFt: number): number | null => {
+  const { vy0, ay } = pitch;
+  const dy = FIT_Y_FT - yFt;
+  if (ay === 0) return vy0 !== 0 ? -dy / vy0 : null;
+  const discriminant = vy0 * vy0 - 2 * ay * dy;
+  if (discriminant < 0) return null;
+  // The ball travels towards -y, so the root nearest y = 50 ft is the physical one
+  return (-vy0 - Math.sqrt(discriminant)) / ay;
+};
+
+/**
+ * Converts a Statcast fit into the scene's release point, velocity and acceleration.
+ * The fit is anchored on plate_x/plate_z and extrapolated back to the release
+ * distance given by release_extension. Returns null if the fit never reaches
+ * the plate or the release distance.
+ */
+export const statcastToScene = (pitch: StatcastPitch): StatcastKinematics | null => {
+  const tPlate = timeAtY(pitch, PLATE_FRONT_Y_FT);
+  const releaseY = PITCHING_DISTANCE_FT - pitch.release_extension;
+  const tRelease = timeAtY(pitch, releaseY);
+  if (tPlate === null || tRelease === null) return null;
+
+  // Position at y = 50 ft, back-solved from the plate location
+  const x50 = pitch.plate_x - pitch.vx0 * tPlate - 0.5 * pitch.ax * tPlate * tPlate;
+  const z50 = pitch.plate_z - pitch.vz0 * tPlate - 0.5 * pitch.az * tPlate * tPlate;
+
+  // Release state in Statcast feet
+  const release = {
+    x: x50 + pitch.vx0 * tRelease + 0.5 * pitch.ax * tRelease * tRelease,
+    y: releaseY,
+    z: z50 + pitch.vz0 * tRelease + 0.5 * pitch.az * tRelease * tRelease,
+  };
+  const velocity = {
+    x: pitch.vx0 + pitch.ax * tRelease,
+    y: pitch.vy0 + pitch.ay * tRelease,
+    z: pitch.vz0 + pitch.az * tRelease,
+  };
+
+  return {
+    releasePoint: {
+      x: release.x * FEET_TO_METERS,
+      y: release.z * FEET_TO_METERS,
+      z: PLATE_BACK_POINT_Z - release.y * FEET_TO_METERS,
+    },
+    releaseVelocity: {
+      x: velocity.x * FEET_TO_METERS,
+      y: velocity.z * FEET_TO_METERS,
+      z: -velocity.y * FEET_TO_METERS,
+    },
+    acceleration: {
+      x: pitch.ax * FEET_TO_METERS,
+      y: pitch.az * FEET_TO_METERS,
+      z: -pitch.ay * FEET_TO_METERS,
+    },
+    releaseMismatch: Math.hypot(release.x - pitch.release_pos_x, release.z - pitch.release_pos_z),
+  };
+};
+
+/**
+ * Parses a pasted Statcast pitch: either a CSV header line plus a data line (as
+ * exported by Baseball Savant), a JSON object, or "name: value" / "name=value" lines.
+ * Returns the parsed pitch, or the list of fields that were missing or not numbers.
+ */
+export const parseStatcastText = (
+  text: string
+): { pitch: StatcastPitch } | { errors: string[] } => {
+  const values: Record<string, string> = {};
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(trimmed) as Record<string, unknown>;
+      for (const [key, value] of Object.entries(parsed)) values[key] = String(value);
+    } catch {
+      return { errors: ["Could not parse JSON"] };
+    }
+  } else {
+    const lines = trimmed.split(/\r?\n/).filter((line) => line.trim() !== "");
+    if (lines.length >= 2 && lines[0].includes(",")) {
+      // Quote-aware, since Savant writes player_name as "Last, First"
+      const [header, row = []] = parseCsv(trimmed);
+      header.forEach((name, i) => (values[name.trim()] = row[i]?.trim()));
+    } else {
+      for (const line of lines) {
+        const match = /^\s*([\w.]+)\s*[:=]\s*(\S+)\s*$/.exec(line);
+        if (match) values[match[1]] = match[2];
+      }
+    }
+  }
+
+  const errors: string[] = [];
+  const pitch = {} as StatcastPitch;
+  for (const field of STATCAST_FIELDS) {
+    const value = parseFloat(values[field]);
+    if (values[field] === undefined) errors.push(`Missing ${field}`);
+    else if (Number.isNaN(value)) errors.push(`${field} is not a number`);
+    else pitch[field] = value;
+  }
+  return errors.length > 0 ? { errors } : { pitch };
+};
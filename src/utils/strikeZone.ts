@@ -0,0 +1,163 @@
+import { BALL_RADIUS, PLATE_FRONT_Z } from "../constants";
+
+type Vector3 = { x: number; y: number; z: number };
+
+// The strike zone volume: a box over the plate from its front edge to its back point
+export interface ZoneBounds {
+  width: number; // meters, centered on x = 0
+  bottom: number; // meters above the ground
+  top: number;
+  depth: number; // meters back from the front of the plate
+}
+
+export interface PitchCall {
+  isStrike: boolean;
+  // Statcast zone numbering from the catcher's view: 1-9 inside the zone (top-left
+  // to bottom-right), 11-14 for the quadrants around it
+  zone: number;
+  zoneLabel: string;
+  // Gap between the ball's surface and the zone (meters); negative when they
+  // overlap, i.e. how far the pitch would have to move to become a ball
+  edgeDistance: number;
+}
+
+// Running count of calls over a session
+export interface CallTally {
+  balls: number;
+  strikes: number;
+}
+
+// A rectangle on the plate plane, meters
+export interface ZoneRect {
+  left: number;
+  right: number;
+  bottom: number;
+  top: number;
+}
+
+/*
+ * Attack regions as multiples of the zone's half-width and half-height around
+ * its center, following Baseball Savant: the heart inside 67%, the shadow from
+ * 67% to 133% (about a ball either side of the edge), the chase out to 200% and
+ * waste beyond.
+ */
+export const SHADOW_INNER_SCALE = 0.67;
+export const SHADOW_OUTER_SCALE = 1.33;
+export const CHASE_OUTER_SCALE = 2;
+
+// The zone's face grown or shrunk about its center
+export const scaledZoneRect = (
+  zone: Pick<ZoneBounds, "width" | "bottom" | "top">,
+  scale: number
+): ZoneRect => {
+  const centerY = (zone.top + zone.bottom) / 2;
+  const halfW = (zone.width / 2) * scale;
+  const halfH = ((zone.top - zone.bottom) / 2) * scale;
+  return { left: -halfW, right: halfW, bottom: centerY - halfH, top: centerY + halfH };
+};
+
+// Edges of the 3x3 grid of zones 1-9: four x positions (left to right) and four y (bottom to top)
+export const zoneGridLines = (
+  zone: Pick<ZoneBounds, "width" | "bottom" | "top">
+): { xs: number[]; ys: number[] } => {
+  const steps = [0, 1, 2, 3];
+  return {
+    xs: steps.map((i) => -zone.width / 2 + (zone.width * i) / 3),
+    ys: steps.map((i) => zone.bottom + ((zone.top - zone.bottom) * i) / 3),
+  };
+};
+
+const SAMPLE_INTERVAL = 0.0002; // seconds; about 8 mm of travel at 90 mph
+
+// Signed distance from a point to the zone box (negative inside)
+const distanceToZone = (p: Vector3, zone: ZoneBounds): number => {
+  const center = {
+    x: 0,
+    y: (zone.top + zone.bottom) / 2,
+    z: PLATE_FRONT_Z + zone.depth / 2,
+  };
+  const half = { x: zone.width / 2, y: (zone.top - zone.bottom) / 2, z: zone.depth / 2 };
+  const d = {
+    x: Math.abs(p.x - center.x) - half.x,
+    y: Math.abs(p.y - center.y) - half.y,
+    z: Math.abs(p.z - center.z) - half.z,
+  };
+  const outside = Math.hypot(Math.max(d.x, 0), Math.max(d.y, 0), Math.max(d.z, 0));
+  const inside = Math.min(Math.max(d.x, d.y, d.z), 0);
+  return outside + inside;
+};
+
+const ZONE_ROWS = ["High", "Middle", "Low"];
+const ZONE_COLUMNS = ["Left", "Center", "Right"];
+
+// Zone number and label for where the ball's center crosses the front of the plate
+const zoneRegion = (x: number, y: number, zone: ZoneBounds): { zone: number; zoneLabel: string } => {
+  const left = -zone.width / 2;
+  const column = Math.floor(((x - left) / zone.width) * 3);
+  const row = Math.floor(((zone.top - y) / (zone.top - zone.bottom)) * 3);
+  if (column >= 0 && column <= 2 && row >= 0 && row <= 2) {
+    return {
+      zone: row * 3 + column + 1,
+      zoneLabel: `${ZONE_ROWS[row]} ${ZONE_COLUMNS[column]}`,
+    };
+  }
+  const isHigh = y >= (zone.top + zone.bottom) / 2;
+  const isLeft = x < 0;
+  return {
+    zone: isHigh ? (isLeft ? 11 : 12) : isLeft ? 13 : 14,
+    zoneLabel: `Outside ${isHigh ? "High" : "Low"} ${isLeft ? "Left" : "Right"}`,
+  };
+};
+
+// Where a flight crosses the plane Z = z, by bisection; the end of the flight if it falls short
+export const positionAtZ = (
+  getPositionAtTime: (t: number) => Vector3,
+  flightTime: number,
+  z: number
+): Vector3 => {
+  const end = getPositionAtTime(flightTime);
+  if (end.z < z) return end;
+  let low = 0;
+  let high = flightTime;
+  for (let i = 0; i < 30; i++) {
+    const mid = (low + high) / 2;
+    if (getPositionAtTime(mid).z < z) low = mid;
+    else high = mid;
+  }
+  return getPositionAtTime(high);
+};
+
+/**
+ * Calls a pitch by sweeping the ball along its whole flight: it is a strike if
+ * any part of the ball touches any part of the zone volume.
+ */
+export const callPitch = (
+  getPositionAtTime: (t: number) => Vector3,
+  flightTime: number,
+  zone: ZoneBounds
+): PitchCall => {
+  let closest = Infinity;
+  let front: Vector3 | null = null;
+  let previous = getPositionAtTime(0);
+  for (let t = 0; t <= flightTime + SAMPLE_INTERVAL / 2; t += SAMPLE_INTERVAL) {
+    const p = getPositionAtTime(Math.min(t, flightTime));
+    closest = Math.min(closest, distanceToZone(p, zone));
+    if (!front && p.z >= PLATE_FRONT_Z) {
+      const f = p.z === previous.z ? 0 : (PLATE_FRONT_Z - previous.z) / (p.z - previous.z);
+      front = {
+        x: previous.x + (p.x - previous.x) * f,
+        y: previous.y + (p.y - previous.y) * f,
+        z: PLATE_FRONT_Z,
+      };
+    }
+    previous = p;
+  }
+  const crossing = front ?? previous; // A pitch that falls short is placed where it ended
+
+  const edgeDistance = closest - BALL_RADIUS;
+  return {
+    isStrike: edgeDistance <= 0,
+    ...zoneRegion(crossing.x, crossing.y, zone),
+    edgeDistance,
+  };
+};
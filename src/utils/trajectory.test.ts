@@ -0,0 +1,226 @@
+import { describe, expect, it } from "vitest";
+import { PLATE_FRONT_Z, PLATE_TOTAL_DEPTH } from "../constants";
+import { REFERENCE_ENVIRONMENT } from "./environment";
+import { releasePointFromSettings } from "./release";
+import { positionAtZ } from "./strikeZone";
+import {
+  PitchParams,
+  Trajectory,
+  TrajectoryWarningCode,
+  solvePitch,
+  suggestFixes,
+  targetFromFrontOfPlate,
+  velocityToReachTarget,
+} from "./trajectory";
+
+const INCH = 0.0254;
+
+// A 95 mph four-seamer from a right-hander, aimed at the middle of the zone
+const FASTBALL: PitchParams = {
+  velocityMPH: 95,
+  ivbInches: 16,
+  hbInches: -8,
+  target: { x: 0, y: 0.775, z: PLATE_TOTAL_DEPTH },
+  spinSettings: null,
+  release: { heightFt: 6, sideFt: -2, extensionFt: 6.5 },
+  environment: REFERENCE_ENVIRONMENT,
+  statcastPitch: null,
+};
+
+const solve = (overrides: Partial<PitchParams>) => solvePitch({ ...FASTBALL, ...overrides });
+const warningCodes = (trajectory: Trajectory): TrajectoryWarningCode[] =>
+  trajectory.warnings.map((warning) => warning.code);
+
+const expectFinite = (trajectory: Trajectory) => {
+  const plate = trajectory.getPositionAtTime(trajectory.flightTime);
+  for (const value of [trajectory.flightTime, trajectory.plateSpeedMPH, plate.x, plate.y, plate.z]) {
+    expect(Number.isFinite(value)).toBe(true);
+  }
+};
+
+describe("solvePitch reference pitches", () => {
+  // Regression values from the engine; a change here means the physics changed
+  it.each([
+    { name: "four-seam fastball", params: {}, flightTime: 0.4078, plateSpeed: 86.43, spinRate: 1850 },
+    {
+      name: "curveball",
+      params: { velocityMPH: 79, ivbInches: -10, hbInches: 8 },
+      flightTime: 0.4891,
+      plateSpeed: 72.66,
+      spinRate: 889,
+    },
+    {
+      name: "no break",
+      params: { ivbInches: 0, hbInches: 0 },
+      flightTime: 0.4049,
+      plateSpeed: 87.76,
+      spinRate: 0,
+    },
+  ])("solves a $name", ({ params, flightTime, plateSpeed, spinRate }) => {
+    const pitch = solve(params);
+    const { ivbInches, hbInches } = { ...FASTBALL, ...params };
+
+    expect(pitch.warnings).toEqual([]);
+    expect(pitch.flightTime).toBeCloseTo(flightTime, 3);
+    expect(pitch.plateSpeedMPH).toBeCloseTo(plateSpeed, 1);
+    expect(pitch.spinRate).toBeCloseTo(spinRate, -1);
+    // Break in reference air matches the inputs and the target is hit
+    expect(pitch.inducedBreak.ivb).toBeCloseTo(ivbInches, 1);
+    expect(pitch.inducedBreak.hb).toBeCloseTo(hbInches, 1);
+    expect(pitch.targetMiss).toBeLessThan(0.05 * INCH);
+  });
+
+  it("starts at the release point and ends on the target", () => {
+    const pitch = solve({});
+    expect(pitch.getPositionAtTime(0)).toEqual(releasePointFromSettings(FASTBALL.release));
+    const plate = pitch.getPositionAtTime(pitch.flightTime);
+    expect(plate.x).toBeCloseTo(FASTBALL.target.x, 3);
+    expect(plate.y).toBeCloseTo(FASTBALL.target.y, 3);
+    expect(plate.z).toBeCloseTo(FASTBALL.target.z, 6);
+  });
+
+  it("flies given spin settings as-is", () => {
+    const pitch = solve({ spinSettings: { rpm: 2400, tilt: 195, gyro: 0 } });
+    expect(pitch.warnings).toEqual([]);
+    expect(pitch.spinRate).toBeCloseTo(2400, 6);
+    expect(pitch.inducedBreak.ivb).toBeCloseTo(-20.71, 1);
+    expect(pitch.inducedBreak.hb).toBeCloseTo(5.41, 1);
+  });
+
+  it("breaks less in thin air", () => {
+    const coors = solve({ environment: { ...REFERENCE_ENVIRONMENT, elevationFt: 5190 } });
+    expect(coors.inducedBreak.ivb).toBeCloseTo(13.16, 1);
+    expect(coors.inducedBreak.hb).toBeCloseTo(-6.58, 1);
+    expect(coors.plateSpeedMPH).toBeGreaterThan(solve({}).plateSpeedMPH);
+  });
+
+  it("is independent of earlier solves", () => {
+    expect(solve({}).flightTime).toBe(solve({}).flightTime);
+  });
+});
+
+describe("solvePitch edge cases", () => {
+  it("reports a break no spin can produce, and keeps the spin sane", () => {
+    const pitch = solve({ velocityMPH: 70, ivbInches: 40, hbInches: 30 });
+    expect(warningCodes(pitch)).toEqual(["break-not-reached"]);
+    expect(pitch.spinRate).toBeLessThanOrEqual(5000);
+    expect(pitch.flightTime).toBeLessThan(0.7);
+    expect(pitch.targetMiss).toBeLessThan(0.05 * INCH);
+  });
+
+  it("solves slow pitches that still reach the plate", () => {
+    const pitch = solve({ velocityMPH: 40 });
+    expect(pitch.warnings).toEqual([]);
+    expect(pitch.flightTime).toBeCloseTo(0.983, 2);
+    expect(pitch.inducedBreak.ivb).toBeCloseTo(16, 1);
+  });
+
+  it("reports a pitch too slow to reach the plate", () => {
+    const pitch = solve({ velocityMPH: 20 });
+    expect(warningCodes(pitch)).toContain("plate-not-reached");
+    expect(pitch.flightTime).toBe(2);
+    expectFinite(pitch);
+  });
+
+  it("solves zero velocity at the minimum speed instead of producing NaN", () => {
+    const pitch = solve({ velocityMPH: 0 });
+    expect(warningCodes(pitch)).toContain("invalid-input");
+    expect(warningCodes(pitch)).toContain("plate-not-reached");
+    expectFinite(pitch);
+  });
+
+  it("treats non-numeric inputs as zero", () => {
+    const pitch = solve({ ivbInches: NaN });
+    expect(warningCodes(pitch)).toEqual(["invalid-input"]);
+    expect(pitch.warnings[0].message).toContain("IVB");
+    expect(pitch.inducedBreak.ivb).toBeCloseTo(0, 1);
+    expectFinite(pitch);
+  });
+
+  it.each([
+    ["spin rate", { spinSettings: { rpm: NaN, tilt: 210, gyro: 0 } }],
+    ["temperature", { environment: { ...REFERENCE_ENVIRONMENT, temperatureF: NaN } }],
+    ["wind speed", { environment: { ...REFERENCE_ENVIRONMENT, windSpeedMph: NaN } }],
+  ])("reports a non-numeric %s instead of producing NaN", (name, overrides: Partial<PitchParams>) => {
+    const pitch = solve(overrides);
+    expect(warningCodes(pitch)).toContain("invalid-input");
+    expect(pitch.warnings[0].message).toContain(name);
+    expect(warningCodes(pitch)).not.toContain("plate-not-reached");
+    expectFinite(pitch);
+  });
+});
+
+describe("solvePitch Statcast replay", () => {
+  const FIT = {
+    release_pos_x: -2,
+    release_pos_z: 6,
+    release_extension: 6.5,
+    vx0: 6,
+    vy0: -138,
+    vz0: -6,
+    ax: -10,
+    ay: 28,
+    az: -15,
+    plate_x: 0,
+    plate_z: 2.5,
+  };
+
+  it("replays the fit instead of solving", () => {
+    const pitch = solve({ statcastPitch: FIT });
+    expect(pitch.warnings).toEqual([]);
+    expect(pitch.spinRate).toBe(0);
+    expect(pitch.flightTime).toBeCloseTo(0.4056, 3);
+    expect(pitch.inducedBreak.ivb).toBeCloseTo(15.1, 1);
+    expect(pitch.inducedBreak.hb).toBeCloseTo(-8.95, 1);
+  });
+
+  it("falls back to the controls when the fit never reaches the plate", () => {
+    const pitch = solve({ statcastPitch: { ...FIT, vy0: 50 } });
+    expect(warningCodes(pitch)).toEqual(["statcast-unusable"]);
+    expect(pitch.flightTime).toBeCloseTo(solve({}).flightTime, 6);
+  });
+});
+
+describe("suggestFixes", () => {
+  it("has nothing to suggest for a clean solve", () => {
+    const params = { ...FASTBALL };
+    expect(suggestFixes(params, solvePitch(params))).toBeNull();
+  });
+
+  it("finds the speed at which a slow pitch reaches the plate", () => {
+    const params = { ...FASTBALL, velocityMPH: 20 };
+    const suggestion = suggestFixes(params, solvePitch(params));
+    const velocity = velocityToReachTarget(params);
+    expect(velocity).not.toBeNull();
+    expect(velocity).toBeLessThanOrEqual(105); // The slider's top speed
+    expect(suggestion?.velocityMPH).toBe(velocity);
+    expect(solve({ velocityMPH: velocity! }).warnings).toEqual([]);
+    expect(solve({ velocityMPH: velocity! - 0.5 }).warnings).not.toEqual([]);
+  });
+
+  it("offers the closest break the spin limit allows", () => {
+    const params = { ...FASTBALL, velocityMPH: 70, ivbInches: 40, hbInches: 30 };
+    const pitch = solvePitch(params);
+    const suggestion = suggestFixes(params, pitch);
+    expect(suggestion?.velocityMPH).toBeNull();
+    expect(suggestion?.break).toEqual(pitch.fitBreak);
+    const closest = suggestion!.break!;
+    expect(closest.ivb).toBeLessThan(40);
+    expect(solve({ velocityMPH: 70, ivbInches: closest.ivb, hbInches: closest.hb }).warnings).toEqual([]);
+  });
+});
+
+describe("targetFromFrontOfPlate", () => {
+  it("aims a curveball so it crosses the front of the plate at the recorded location", () => {
+    const curveball = { ...FASTBALL, velocityMPH: 78, ivbInches: -12, hbInches: 7 };
+    const front = { x: 0.1, y: 0.5 };
+    const target = targetFromFrontOfPlate(curveball, front);
+    // Dropping through the plate, it is lower at the back point
+    expect(front.y - target.y).toBeGreaterThan(1 * INCH);
+
+    const pitch = solvePitch({ ...curveball, target: { ...target, z: PLATE_TOTAL_DEPTH } });
+    const crossing = positionAtZ(pitch.getPositionAtTime, pitch.flightTime, PLATE_FRONT_Z);
+    expect(Math.abs(crossing.x - front.x)).toBeLessThan(0.1 * INCH);
+    expect(Math.abs(crossing.y - front.y)).toBeLessThan(0.1 * INCH);
+  });
+});
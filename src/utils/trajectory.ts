@@ -0,0 +1,633 @@
+import { BALL_MASS_KG, BALL_RADIUS, PLATE_FRONT_Z } from "../constants";
+import { SpinSettings, tiltToMovementAngle } from "./spin";
+import { ReleaseSettings, releasePointFromSettings } from "./release";
+import {
+  EnvironmentSettings,
+  REFERENCE_ENVIRONMENT,
+  airDensity,
+  windVelocity,
+} from "./environment";
+import { StatcastPitch, statcastToScene } from "./statcast";
+
+// Constants
+const GRAVITY = 9.81; // m/s^2
+const MILES_TO_METERS = 1609.344;
+const MPH_TO_MPS = MILES_TO_METERS / 3600;
+const INCHES_TO_METERS = 0.0254;
+const RPM_TO_RAD_PER_SEC = (2 * Math.PI) / 60;
+
+// Aerodynamic model (after Alan Nathan's trajectory calculator)
+const BALL_AREA = Math.PI * BALL_RADIUS * BALL_RADIUS; // Cross-sectional area (m^2)
+const CD_BASE = 0.3008; // Drag coefficient with no spin
+const CD_SPIN = 0.0292; // Extra drag per 1000 rpm of spin
+const CL_A = 1.12; // Lift coefficient: C_L = CL_A * S / (CL_B + CL_C * S)
+const CL_B = 0.583;
+const CL_C = 2.333;
+const CL_MAX = CL_A / CL_C; // Asymptotic lift as the spin factor grows without bound
+
+// Numerical integration settings
+const TIME_STEP = 0.001; // seconds (RK4)
+const MAX_FLIGHT_TIME = 2.0; // seconds; anything slower never reaches the plate
+const MAX_SOLVER_ITERATIONS = 25;
+const AIM_TOLERANCE_M = 0.0005; // Stop aiming once the plate miss is under half a millimeter
+const BREAK_TOLERANCE_M = 0.0005;
+const MAX_FIT_SPIN_RPM = 5000; // Past any human arm; breaks that need more are reported instead
+const MIN_VELOCITY_MPH = 1; // Slower (or backwards) pitches are solved at this speed
+// Misses larger than these are reported as warnings
+export const TARGET_MISS_WARNING_M = 0.5 * INCHES_TO_METERS;
+const BREAK_MISS_WARNING_M = 0.5 * INCHES_TO_METERS;
+
+export type Vec3 = { x: number; y: number; z: number };
+
+// Air the ball flies through
+interface AirModel {
+  aeroConstant: number; // 0.5 * rho * A / m; multiplies C * v^2 to give m/s^2
+  wind: Vec3; // m/s
+}
+
+// Sampled flight from release until the ball crosses the target plane
+interface FlightPath {
+  positions: Vec3[]; // Sample i is at time i * TIME_STEP
+  velocities: Vec3[];
+  plateTime: number; // Time the ball crosses the target plane
+  platePosition: Vec3;
+  plateVelocity: Vec3;
+  reachedPlate: boolean; // False if MAX_FLIGHT_TIME ran out first
+}
+
+// Everything that defines a pitch for the solver
+export interface PitchParams {
+  velocityMPH: number; // Release speed
+  ivbInches: number; // Induced vertical break in the reference environment
+  hbInches: number; // Horizontal break, positive to the catcher's right
+  target: Vec3; // Where the pitch should cross the target plane (z is the plane)
+  spinSettings: SpinSettings | null; // Replaces IVB/HB when given
+  release: ReleaseSettings;
+  environment: EnvironmentSettings;
+  statcastPitch: StatcastPitch | null; // Replayed instead of solving when given
+}
+
+// Problems the solver ran into; the trajectory is still usable but may not be what was asked for
+export type TrajectoryWarningCode =
+  | "invalid-input" // A parameter was not a finite number (or a speed not above zero)
+  | "statcast-unusable" // The Statcast fit never reaches the target plane
+  | "plate-not-reached" // The flight ran out of time before the target plane
+  | "target-missed" // The aim did not converge on the target
+  | "break-not-reached"; // No spin produces the requested break
+
+export interface TrajectoryWarning {
+  code: TrajectoryWarningCode;
+  message: string;
+}
+
+export interface Trajectory {
+  getPositionAtTime: (t: number) => { x: number; y: number; z: number };
+  flightTime: number;
+  releasePoint: { x: number; y: number; z: number };
+  initialVelocity: { x: number; y: number; z: number }; // At release, m/s
+  plateVelocity: { x: number; y: number; z: number };
+  frontOfPlateVelocity: { x: number; y: number; z: number }; // Where approach angles are measured
+  plateSpeedMPH: number; // Speed as the ball crosses the target plane
+  spin: { x: number; y: number; z: number }; // Spin vector used for the flight (rad/s)
+  spinRate: number; // Total spin rate (rpm)
+  airDensity: number; // kg/m^3
+  activeSpinRate: number; // Spin rate transverse to the release direction (rpm)
+  inducedBreak: { ivb: number; hb: number }; // Break (inches) vs. a spinless ball with the same release
+  // That spinless ball, from release to the plate; the break is the gap between the two
+  noSpinTrajectory: {
+    getPositionAtTime: (t: number) => { x: number; y: number; z: number };
+    flightTime: number;
+  };
+  targetMiss: number; // Distance (meters) between the solved path and the target at the plate
+  // Break (inches) the spin fit reached in reference air; null unless solving from IVB/HB
+  fitBreak: { ivb: number; hb: number } | null;
+  warnings: TrajectoryWarning[];
+}
+
+// --- Small vector helpers ---
+const add = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+const scale = (a: Vec3, s: number): Vec3 => ({ x: a.x * s, y: a.y * s, z: a.z * s });
+const length = (a: Vec3): number => Math.sqrt(a.x * a.x + a.y * a.y + a.z * a.z);
+const cross = (a: Vec3, b: Vec3): Vec3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+const normalize = (a: Vec3): Vec3 => {
+  const len = length(a);
+  return len > 0 ? scale(a, 1 / len) : { x: 0, y: 0, z: 0 };
+};
+const lerp = (a: Vec3, b: Vec3, f: number): Vec3 => add(a, scale(add(b, scale(a, -1)), f));
+
+const airModel = (env: EnvironmentSettings): AirModel => ({
+  aeroConstant: (0.5 * airDensity(env) * BALL_AREA) / BALL_MASS_KG,
+  wind: windVelocity(env),
+});
+
+// --- Aerodynamic coefficients ---
+const dragCoefficient = (spinRpm: number): number => CD_BASE + CD_SPIN * (spinRpm / 1000);
+
+const liftCoefficient = (spinFactor: number): number =>
+  spinFactor > 0 ? (CL_A * spinFactor) / (CL_B + CL_C * spinFactor) : 0;
+
+// Inverse of liftCoefficient, used when solving for the spin that produces a given break
+const spinFactorForLift = (lift: number): number => (CL_B * lift) / (CL_A - CL_C * lift);
+
+/**
+ * Acceleration on the ball from gravity, drag and the Magnus force.
+ * Drag opposes the velocity through the air; Magnus acts along (spin x velocity),
+ * scaled by a lift coefficient that depends on the spin factor S = r * omega / v.
+ */
+const acceleration = (velocity: Vec3, spin: Vec3, air: AirModel): Vec3 => {
+  const airVelocity = add(velocity, scale(air.wind, -1));
+  const speed = length(airVelocity);
+  if (speed === 0) return { x: 0, y: -GRAVITY, z: 0 };
+
+  const spinRate = length(spin); // rad/s
+  const drag = scale(airVelocity, -air.aeroConstant * dragCoefficient(spinRate / RPM_TO_RAD_PER_SEC) * speed);
+
+  // Only the spin component perpendicular to the velocity ("active" spin) produces lift
+  const spinCrossVel = cross(spin, airVelocity);
+  const activeSpin = length(spinCrossVel) / speed;
+  let magnus = { x: 0, y: 0, z: 0 };
+  if (activeSpin > 0) {
+    const lift = liftCoefficient((BALL_RADIUS * activeSpin) / speed);
+    magnus = scale(normalize(spinCrossVel), air.aeroConstant * lift * speed * speed);
+  }
+
+  return { x: drag.x + magnus.x, y: drag.y + magnus.y - GRAVITY, z: drag.z + magnus.z };
+};
+
+/**
+ * Integrates the flight with RK4 from the release state until the ball crosses
+ * the plane Z = targetZ (or MAX_FLIGHT_TIME runs out).
+ */
+const integrateFlight = (p0: Vec3, v0: Vec3, spin: Vec3, targetZ: number, air: AirModel): FlightPath => {
+  const positions: Vec3[] = [p0];
+  const velocities: Vec3[] = [v0];
+  let p = p0;
+  let v = v0;
+  const h = TIME_STEP;
+
+  for (let step = 1; step * h <= MAX_FLIGHT_TIME; step++) {
+    const k1v = acceleration(v, spin, air);
+    const k1p = v;
+    const k2v = acceleration(add(v, scale(k1v, h / 2)), spin, air);
+    const k2p = add(v, scale(k1v, h / 2));
+    const k3v = acceleration(add(v, scale(k2v, h / 2)), spin, air);
+    const k3p = add(v, scale(k2v, h / 2));
+    const k4v = acceleration(add(v, scale(k3v, h)), spin, air);
+    const k4p = add(v, scale(k3v, h));
+
+    const nextP = add(p, scale(add(add(k1p, scale(k2p, 2)), add(scale(k3p, 2), k4p)), h / 6));
+    const nextV = add(v, scale(add(add(k1v, scale(k2v, 2)), add(scale(k3v, 2), k4v)), h / 6));
+
+    if (nextP.z >= targetZ) {
+      // Interpolate the exact crossing within this step
+      const f = (targetZ - p.z) / (nextP.z - p.z);
+      const platePosition = lerp(p, nextP, f);
+      const plateVelocity = lerp(v, nextV, f);
+      positions.push(platePosition);
+      velocities.push(plateVelocity);
+      return {
+        positions,
+        velocities,
+        plateTime: (step - 1 + f) * h,
+        platePosition,
+        plateVelocity,
+        reachedPlate: true,
+      };
+    }
+
+    positions.push(nextP);
+    velocities.push(nextV);
+    p = nextP;
+    v = nextV;
+  }
+
+  return {
+    positions,
+    velocities,
+    plateTime: (positions.length - 1) * h,
+    platePosition: p,
+    plateVelocity: v,
+    reachedPlate: false,
+  };
+};
+
+// Position along a sampled flight, interpolating between samples
+const sampledPositionAt = (flight: FlightPath) => {
+  const { positions, plateTime: flightTime } = flight;
+  return (t: number): Vec3 => {
+    if (t <= 0) return positions[0];
+    if (t >= flightTime) return positions[positions.length - 1];
+
+    const index = Math.floor(t / TIME_STEP);
+    const next = Math.min(index + 1, positions.length - 1);
+    // The last sample sits at flightTime rather than on the regular grid
+    const nextTime = next === positions.length - 1 ? flightTime : next * TIME_STEP;
+    const span = nextTime - index * TIME_STEP;
+    const f = span > 0 ? (t - index * TIME_STEP) / span : 0;
+    return lerp(positions[index], positions[next], f);
+  };
+};
+
+// Velocity as the sampled flight crosses the plane Z = z (the last sample if it never does)
+const velocityAtZ = (flight: FlightPath, z: number): Vec3 => {
+  const { positions, velocities } = flight;
+  const index = positions.findIndex((p) => p.z >= z);
+  if (index < 0) return velocities[velocities.length - 1];
+  if (index === 0) return velocities[0];
+  const before = positions[index - 1];
+  const f = (z - before.z) / (positions[index].z - before.z);
+  return lerp(velocities[index - 1], velocities[index], f);
+};
+
+// Spin vector (rad/s) that pushes a ball moving along `direction` towards the
+// (x, y) movement angle, i.e. spin = rate * (direction x movement). A gyro angle
+// tips the axis towards the direction of flight, where it produces no movement.
+const spinForMovement = (rpm: number, movementAngle: number, direction: Vec3, gyroDegrees = 0): Vec3 => {
+  const movement = { x: Math.cos(movementAngle), y: Math.sin(movementAngle), z: 0 };
+  const gyro = (gyroDegrees * Math.PI) / 180;
+  const axis = add(scale(normalize(cross(direction, movement)), Math.cos(gyro)), scale(direction, Math.sin(gyro)));
+  return scale(axis, rpm * RPM_TO_RAD_PER_SEC);
+};
+
+/**
+ * Replays a Statcast 9-parameter fit as-is (constant acceleration), skipping the
+ * aerodynamic solver. The flight runs from release to the target plane.
+ */
+const statcastTrajectory = (
+  pitch: StatcastPitch,
+  target: Vec3,
+  environment: EnvironmentSettings
+): Trajectory | null => {
+  const kinematics = statcastToScene(pitch);
+  if (!kinematics) return null;
+  const { releasePoint: p0, releaseVelocity: v0, acceleration: a } = kinematics;
+
+  // Solve z(t) = z for the first positive t (NaN if the ball never gets there)
+  const timeAtZ = (z: number): number => {
+    const dz = z - p0.z;
+    if (a.z === 0) return dz / v0.z;
+    const discriminant = v0.z * v0.z + 2 * a.z * dz;
+    if (discriminant < 0) return NaN;
+    const roots = [(-v0.z + Math.sqrt(discriminant)) / a.z, (-v0.z - Math.sqrt(discriminant)) / a.z];
+    return Math.min(...roots.filter((t) => t > 0));
+  };
+  const flightTime = timeAtZ(target.z);
+  if (!(flightTime > 0 && Number.isFinite(flightTime))) return null;
+
+  const getPositionAtTime = (t: number): { x: number; y: number; z: number } => {
+    const time = Math.max(0, Math.min(t, flightTime));
+    return add(add(p0, scale(v0, time)), scale(a, 0.5 * time * time));
+  };
+  const plateVelocity = add(v0, scale(a, flightTime));
+  const frontTime = timeAtZ(PLATE_FRONT_Z);
+  const frontOfPlateVelocity = Number.isFinite(frontTime) ? add(v0, scale(a, frontTime)) : plateVelocity;
+  const plateSpeedMPH = length(plateVelocity) / MPH_TO_MPS;
+  const platePosition = getPositionAtTime(flightTime);
+
+  // Induced break: the acceleration left after removing gravity and the drag
+  // component along the average direction of flight, applied over the flight
+  const direction = normalize(add(v0, plateVelocity));
+  const nonGravity = { x: a.x, y: a.y + GRAVITY, z: a.z };
+  const along = nonGravity.x * direction.x + nonGravity.y * direction.y + nonGravity.z * direction.z;
+  const magnus = add(nonGravity, scale(direction, -along));
+  const inducedBreak = {
+    ivb: (0.5 * magnus.y * flightTime * flightTime) / INCHES_TO_METERS,
+    hb: (0.5 * magnus.x * flightTime * flightTime) / INCHES_TO_METERS,
+  };
+  // The same fit without the Magnus part, on the same clock
+  const noSpinAcceleration = add(a, scale(magnus, -1));
+  const noSpinTrajectory = {
+    getPositionAtTime: (t: number): Vec3 => {
+      const time = Math.max(0, Math.min(t, flightTime));
+      return add(add(p0, scale(v0, time)), scale(noSpinAcceleration, 0.5 * time * time));
+    },
+    flightTime,
+  };
+
+  return {
+    getPositionAtTime,
+    flightTime,
+    releasePoint: p0,
+    initialVelocity: v0,
+    plateVelocity,
+    frontOfPlateVelocity,
+    plateSpeedMPH,
+    spin: { x: 0, y: 0, z: 0 }, // Not part of the fit
+    spinRate: 0,
+    airDensity: airDensity(environment),
+    activeSpinRate: 0,
+    inducedBreak,
+    noSpinTrajectory,
+    targetMiss: Math.hypot(platePosition.x - target.x, platePosition.y - target.y),
+    fitBreak: null,
+    warnings: [],
+  };
+};
+
+// Numeric parameters that must be finite, with the names used in warnings
+const numericInputs = (params: PitchParams): [string, number][] => {
+  const { spinSettings, environment } = params;
+  return [
+    ["velocity", params.velocityMPH],
+    ["IVB", params.ivbInches],
+    ["HB", params.hbInches],
+    ["target x", params.target.x],
+    ["target y", params.target.y],
+    ["target z", params.target.z],
+    ["release height", params.release.heightFt],
+    ["release side", params.release.sideFt],
+    ["extension", params.release.extensionFt],
+    ...(spinSettings
+      ? ([
+          ["spin rate", spinSettings.rpm],
+          ["spin tilt", spinSettings.tilt],
+          ["gyro angle", spinSettings.gyro],
+        ] as [string, number][])
+      : []),
+    ["temperature", environment.temperatureF],
+    environment.pressureSource === "elevation"
+      ? ["elevation", environment.elevationFt]
+      : ["pressure", environment.pressureInHg],
+    ["humidity", environment.humidity],
+    ["wind speed", environment.windSpeedMph],
+    ["wind direction", environment.windDirection],
+  ];
+};
+
+/**
+ * Solves the flight of a pitch so that it passes through the target point.
+ * Uses scene coordinates: Y=up, Z=towards camera/catcher (+Z towards catcher).
+ *
+ * The flight is integrated numerically with gravity, drag and Magnus forces.
+ * IVB/HB are the spin-induced displacement at the plate relative to a spinless
+ * ball thrown with the same release velocity; the solver finds the spin that
+ * produces that break and the release direction that lands on the target.
+ * When spin settings are given they are used as-is and IVB/HB are ignored.
+ *
+ * IVB/HB describe the pitch in the reference environment (70°F at sea level);
+ * the spin that produces them there is then flown through the actual air, so the
+ * same pitch breaks less in thin air (e.g. at Coors Field).
+ *
+ * A Statcast pitch, when given, replaces all of the above: its fitted path is
+ * replayed exactly and the target only serves to report the miss distance.
+ *
+ * Never throws and never logs: anything that goes wrong is reported in
+ * `warnings` alongside the best trajectory the solver could find.
+ */
+export const solvePitch = (params: PitchParams): Trajectory => {
+  const { release, statcastPitch } = params;
+  const warnings: TrajectoryWarning[] = [];
+
+  // Non-finite values are replaced with zero so the rest of the solve still runs
+  const invalid = numericInputs(params).filter(([, value]) => !Number.isFinite(value));
+  if (invalid.length > 0) {
+    warnings.push({
+      code: "invalid-input",
+      message: `Not a number: ${invalid.map(([name]) => name).join(", ")}; treated as 0.`,
+    });
+  }
+  const finite = (value: number) => (Number.isFinite(value) ? value : 0);
+  const inputVelocityMPH = finite(params.velocityMPH);
+  const ivbInches = finite(params.ivbInches);
+  const hbInches = finite(params.hbInches);
+  const P_target = { x: finite(params.target.x), y: finite(params.target.y), z: finite(params.target.z) };
+  const safeRelease = {
+    heightFt: finite(release.heightFt),
+    sideFt: finite(release.sideFt),
+    extensionFt: finite(release.extensionFt),
+  };
+  const spinSettings = params.spinSettings && {
+    rpm: finite(params.spinSettings.rpm),
+    tilt: finite(params.spinSettings.tilt),
+    gyro: finite(params.spinSettings.gyro),
+  };
+  const environment: EnvironmentSettings = {
+    ...params.environment,
+    temperatureF: finite(params.environment.temperatureF),
+    elevationFt: finite(params.environment.elevationFt),
+    pressureInHg: finite(params.environment.pressureInHg),
+    humidity: finite(params.environment.humidity),
+    windSpeedMph: finite(params.environment.windSpeedMph),
+    windDirection: finite(params.environment.windDirection),
+  };
+  const velocityMPH = Math.max(inputVelocityMPH, MIN_VELOCITY_MPH);
+  if (inputVelocityMPH < MIN_VELOCITY_MPH) {
+    warnings.push({
+      code: "invalid-input",
+      message: `Velocity must be at least ${MIN_VELOCITY_MPH} mph (got ${inputVelocityMPH}); treated as ${MIN_VELOCITY_MPH}.`,
+    });
+  }
+
+  if (statcastPitch) {
+    const replay = statcastTrajectory(statcastPitch, P_target, environment);
+    if (replay) return { ...replay, warnings };
+    warnings.push({
+      code: "statcast-unusable",
+      message: "The Statcast fit never reaches the plate; solved from the controls instead.",
+    });
+  }
+
+  // 1. Unit Conversions & Target Definition
+  const speed = velocityMPH * MPH_TO_MPS;
+  const ivb_m = ivbInches * INCHES_TO_METERS; // Spin-induced vertical displacement
+  const hb_m = hbInches * INCHES_TO_METERS; // Spin-induced horizontal displacement
+  const breakMagnitude = Math.sqrt(ivb_m * ivb_m + hb_m * hb_m);
+  const targetZ_m = P_target.z;
+
+  // Release Point: Z is negative (away from camera/catcher)
+  const P0 = releasePointFromSettings(safeRelease);
+
+  // 2. Initial guesses: aim straight at the target, spin pointed along the break
+  //    (or taken directly from the spin settings)
+  const solveBreak = !spinSettings && breakMagnitude > 0;
+  let aim = { ...P_target };
+  let movementAngle = spinSettings ? tiltToMovementAngle(spinSettings.tilt) : Math.atan2(ivb_m, hb_m);
+  let spinRpm = spinSettings ? spinSettings.rpm : breakMagnitude > 0 ? 2000 : 0;
+  const gyroDegrees = spinSettings ? spinSettings.gyro : 0;
+
+  const air = airModel(environment);
+  let v0 = { x: 0, y: 0, z: speed };
+  let spin = { x: 0, y: 0, z: 0 };
+  let flight = integrateFlight(P0, v0, spin, targetZ_m, air);
+  let missX = 0;
+  let missY = 0;
+  let breakError = 0;
+  let reachedBreak: { ivb: number; hb: number } | null = null;
+  const noSpinAt = (velocity: Vec3, model: AirModel) =>
+    integrateFlight(P0, velocity, { x: 0, y: 0, z: 0 }, targetZ_m, model);
+
+  // 3. Iterate: adjust the release direction until the plate location matches the
+  //    target, and (when fitting) the spin until the break vs. a spinless ball
+  //    matches IVB/HB.
+  const solve = (model: AirModel, fitBreak: boolean) => {
+    for (let iteration = 0; iteration < MAX_SOLVER_ITERATIONS; iteration++) {
+      const direction = normalize(add(aim, scale(P0, -1)));
+      v0 = scale(direction, speed);
+      spin = spinForMovement(spinRpm, movementAngle, direction, gyroDegrees);
+      flight = integrateFlight(P0, v0, spin, targetZ_m, model);
+
+      missX = flight.platePosition.x - P_target.x;
+      missY = flight.platePosition.y - P_target.y;
+
+      breakError = 0;
+      if (fitBreak) {
+        const noSpin = noSpinAt(v0, model);
+        const breakX = flight.platePosition.x - noSpin.platePosition.x;
+        const breakY = flight.platePosition.y - noSpin.platePosition.y;
+        const achieved = Math.sqrt(breakX * breakX + breakY * breakY);
+        breakError = Math.sqrt((breakX - hb_m) ** 2 + (breakY - ivb_m) ** 2);
+        reachedBreak = { ivb: breakY / INCHES_TO_METERS, hb: breakX / INCHES_TO_METERS };
+
+        // Rotate the spin axis by the direction error and rescale the lift
+        // coefficient by the magnitude error (break is close to linear in C_L)
+        movementAngle += Math.atan2(ivb_m, hb_m) - Math.atan2(breakY, breakX);
+        if (achieved > 0) {
+          const currentLift = liftCoefficient((BALL_RADIUS * spinRpm * RPM_TO_RAD_PER_SEC) / speed);
+          const neededLift = Math.min(currentLift * (breakMagnitude / achieved), CL_MAX * 0.99);
+          spinRpm = Math.min(
+            (spinFactorForLift(neededLift) * speed) / BALL_RADIUS / RPM_TO_RAD_PER_SEC,
+            MAX_FIT_SPIN_RPM
+          );
+        }
+      }
+
+      if (Math.sqrt(missX * missX + missY * missY) < AIM_TOLERANCE_M && breakError < BREAK_TOLERANCE_M) {
+        break;
+      }
+
+      aim = { x: aim.x - missX, y: aim.y - missY, z: aim.z };
+    }
+  };
+
+  if (solveBreak) {
+    // Find the spin for the break in reference air, then re-aim it in the actual air
+    solve(airModel(REFERENCE_ENVIRONMENT), true);
+    if (breakError > BREAK_MISS_WARNING_M) {
+      warnings.push({
+        code: "break-not-reached",
+        message: `No spin produces ${ivbInches.toFixed(1)}" IVB / ${hbInches.toFixed(1)}" HB at ${velocityMPH.toFixed(1)} mph; off by ${(breakError / INCHES_TO_METERS).toFixed(1)}".`,
+      });
+    }
+  }
+  solve(air, false);
+
+  const targetMiss = Math.sqrt(missX * missX + missY * missY);
+  if (!flight.reachedPlate) {
+    warnings.push({
+      code: "plate-not-reached",
+      message: `The pitch never reaches the plate within ${MAX_FLIGHT_TIME} s at ${velocityMPH.toFixed(1)} mph.`,
+    });
+  } else if (targetMiss > TARGET_MISS_WARNING_M) {
+    warnings.push({
+      code: "target-missed",
+      message: `The closest the solver got to the target was ${(targetMiss / INCHES_TO_METERS).toFixed(1)}".`,
+    });
+  }
+
+  const noSpin = noSpinAt(v0, air);
+  const inducedBreak = {
+    ivb: (flight.platePosition.y - noSpin.platePosition.y) / INCHES_TO_METERS,
+    hb: (flight.platePosition.x - noSpin.platePosition.x) / INCHES_TO_METERS,
+  };
+
+  // 4. Parametric Trajectory Function interpolating the integrated samples
+  return {
+    getPositionAtTime: sampledPositionAt(flight),
+    flightTime: flight.plateTime,
+    releasePoint: P0,
+    initialVelocity: v0,
+    plateVelocity: flight.plateVelocity,
+    frontOfPlateVelocity: velocityAtZ(flight, PLATE_FRONT_Z),
+    plateSpeedMPH: length(flight.plateVelocity) / MPH_TO_MPS,
+    spin,
+    spinRate: length(spin) / RPM_TO_RAD_PER_SEC,
+    airDensity: airDensity(environment),
+    activeSpinRate: length(cross(spin, normalize(v0))) / RPM_TO_RAD_PER_SEC,
+    inducedBreak,
+    noSpinTrajectory: {
+      getPositionAtTime: sampledPositionAt(noSpin),
+      flightTime: noSpin.plateTime,
+    },
+    targetMiss,
+    fitBreak: reachedBreak,
+    warnings,
+  };
+};
+
+/**
+ * Target on the plane Z = params.target.z for a pitch that crosses the front
+ * edge of the plate at `front`, which is where Statcast and Trackman measure
+ * plate locations. The pitch is solved through `front` and carried straight on
+ * through the plate; it crosses in about a hundredth of a second, so the curve
+ * over that stretch is well under a tenth of an inch.
+ */
+export const targetFromFrontOfPlate = (
+  params: PitchParams,
+  front: { x: number; y: number }
+): { x: number; y: number } => {
+  const trajectory = solvePitch({ ...params, target: { ...front, z: PLATE_FRONT_Z } });
+  const end = trajectory.getPositionAtTime(trajectory.flightTime);
+  const { x: vx, y: vy, z: vz } = trajectory.plateVelocity;
+  if (vz <= 0) return { x: end.x, y: end.y };
+  const depth = params.target.z - end.z;
+  return { x: end.x + (vx / vz) * depth, y: end.y + (vy / vz) * depth };
+};
+
+// Ways to get a failed solve onto the target
+export interface SolverSuggestion {
+  target: { x: number; y: number } | null; // Closest point the pitch does reach on the target plane
+  velocityMPH: number | null; // Slowest release speed that reaches the target
+  break: { ivb: number; hb: number } | null; // Closest break the spin limit allows, in reference air
+}
+
+const MAX_SUGGESTED_VELOCITY_MPH = 105; // The top of the velocity slider
+const VELOCITY_RESOLUTION_MPH = 0.5;
+
+const reachesTarget = (trajectory: Trajectory) =>
+  !trajectory.warnings.some((w) => w.code === "plate-not-reached" || w.code === "target-missed");
+
+/**
+ * Slowest release speed (to the nearest half mph) at which the pitch reaches
+ * the target, searching up from the given speed; null if even 105 mph doesn't.
+ */
+export const velocityToReachTarget = (params: PitchParams): number | null => {
+  const attempt = (velocityMPH: number) => reachesTarget(solvePitch({ ...params, velocityMPH }));
+  let low = Math.max(params.velocityMPH, MIN_VELOCITY_MPH);
+  let high = MAX_SUGGESTED_VELOCITY_MPH;
+  if (!attempt(high)) return null;
+  while (high - low > VELOCITY_RESOLUTION_MPH) {
+    const mid = (low + high) / 2;
+    if (attempt(mid)) high = mid;
+    else low = mid;
+  }
+  return Math.ceil(high / VELOCITY_RESOLUTION_MPH) * VELOCITY_RESOLUTION_MPH;
+};
+
+const FIXABLE_WARNINGS: TrajectoryWarningCode[] = ["plate-not-reached", "target-missed", "break-not-reached"];
+
+// Whether suggestFixes has anything to offer for these warnings
+export const hasFixableWarnings = (warnings: TrajectoryWarning[]): boolean =>
+  warnings.some((w) => FIXABLE_WARNINGS.includes(w.code));
+
+/**
+ * Suggestions for a solve that came back with warnings, or null when there is
+ * nothing to fix. The velocity search re-solves the pitch several times, so
+ * call this on request rather than on every solve.
+ */
+export const suggestFixes = (params: PitchParams, trajectory: Trajectory): SolverSuggestion | null => {
+  if (!hasFixableWarnings(trajectory.warnings)) return null;
+  const codes = trajectory.warnings.map((w) => w.code);
+  const missed = codes.includes("plate-not-reached") || codes.includes("target-missed");
+  const breakMissed = codes.includes("break-not-reached");
+
+  const plate = trajectory.getPositionAtTime(trajectory.flightTime);
+  return {
+    target: codes.includes("target-missed") ? { x: plate.x, y: plate.y } : null,
+    velocityMPH: missed ? velocityToReachTarget(params) : null,
+    break: breakMissed ? trajectory.fitBreak : null,
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { PLATE_TOTAL_DEPTH } from "../constants";
+import { REFERENCE_ENVIRONMENT } from "./environment";
+import { PitchParams, solvePitch } from "./trajectory";
+import { analyzeTunnel } from "./tunnel";
+
+const INCH = 0.0254;
+
+const pitch = (overrides: Partial<PitchParams>) =>
+  solvePitch({
+    velocityMPH: 95,
+    ivbInches: 16,
+    hbInches: -8,
+    target: { x: 0, y: 0.775, z: PLATE_TOTAL_DEPTH },
+    spinSettings: null,
+    release: { heightFt: 6, sideFt: -2, extensionFt: 6.5 },
+    environment: REFERENCE_ENVIRONMENT,
+    statcastPitch: null,
+    ...overrides,
+  });
+
+describe("analyzeTunnel", () => {
+  // A fastball up and a changeup down from the same slot
+  const fastball = pitch({ target: { x: 0.05, y: 0.85, z: PLATE_TOTAL_DEPTH } });
+  const changeup = pitch({ velocityMPH: 86, ivbInches: 7, hbInches: -14 });
+
+  it("ignores the depth gap between pitches of different speeds", () => {
+    const analysis = analyzeTunnel(fastball, changeup, 12 * INCH);
+    const plate = fastball.getPositionAtTime(fastball.flightTime);
+    const plateB = changeup.getPositionAtTime(changeup.flightTime);
+    expect(analysis.plate.separation).toBeCloseTo(Math.hypot(plate.x - plateB.x, plate.y - plateB.y), 6);
+
+    // The changeup trails by over two feet at the decision point, which isn't counted
+    const decision = analysis.decisionPoint!;
+    expect(Math.abs(decision.positionA.z - decision.positionB.z)).toBeGreaterThan(20 * INCH);
+    expect(decision.separation).toBeLessThan(analysis.plate.separation);
+    expect(analysis.tunnelPoint).not.toBeNull();
+  });
+
+  it("tunnels identical pitches all the way to the plate", () => {
+    const analysis = analyzeTunnel(fastball, fastball, 1 * INCH);
+    expect(analysis.tunnelPoint?.timeBeforePlate).toBe(0);
+    expect(analysis.plate.separation).toBe(0);
+  });
+});
@@ -0,0 +1,99 @@
+import { PLATE_BACK_POINT_Z, STRIKE_ZONE_BOTTOM, STRIKE_ZONE_TOP } from "../constants";
+import { PitchTypeCode } from "./pitchLibrary";
+
+type Vector3 = { x: number; y: number; z: number };
+
+// Anything with a flight that ends at the plate: the current pitch or a thrown one
+export interface TunnelPitch {
+  flightTime: number;
+  getPositionAtTime: (t: number) => Vector3;
+}
+
+// Which pitch fills a tunnel slot: the live controls, the second control set,
+// or a pitch from the history
+export type TunnelSource = "current" | "second" | number;
+
+// A second set of pitch controls for tunneling, thrown from the same release
+// and in the same air as the main controls
+export interface SecondPitch {
+  pitchType: PitchTypeCode | null;
+  velocity: number; // MPH
+  ivb: number; // inches
+  hb: number; // inches
+  target: { x: number; y: number }; // meters on the target plane
+}
+
+// The library's right-handed changeup at the middle of the zone, to pair with
+// the default fastball
+export const DEFAULT_SECOND_PITCH: SecondPitch = {
+  pitchType: "CH",
+  velocity: 86,
+  ivb: 7,
+  hb: -14,
+  target: { x: 0, y: (STRIKE_ZONE_TOP + STRIKE_ZONE_BOTTOM) / 2 },
+};
+
+export const DEFAULT_TUNNEL_THRESHOLD_IN = 3;
+export const DECISION_TIME_BEFORE_PLATE = 0.175; // seconds; when a hitter must commit
+const SAMPLE_INTERVAL = 0.001; // seconds
+
+// Where both balls are at one moment on the shared clock
+export interface TunnelSnapshot {
+  timeBeforePlate: number; // seconds
+  positionA: Vector3;
+  positionB: Vector3;
+  separation: number; // meters, across the line of flight (x/y only)
+}
+
+export interface TunnelAnalysis {
+  // Last moment the pitches are within the threshold; null if they never are
+  tunnelPoint: (TunnelSnapshot & { distanceFromPlate: number }) | null; // distance in meters
+  decisionPoint: TunnelSnapshot | null; // null if either flight is shorter than the decision time
+  plate: TunnelSnapshot;
+}
+
+/**
+ * Compares two pitches on a clock counted back from each one's arrival at the
+ * plate, since that is how a hitter sees them. At a given moment a slower pitch
+ * is further from the plate, so the balls are compared across the line of flight
+ * only: the depth gap says nothing about whether they look alike. The tunnel
+ * point is where the pitches last sit within `thresholdM` of each other before
+ * they split apart.
+ */
+export const analyzeTunnel = (
+  a: TunnelPitch,
+  b: TunnelPitch,
+  thresholdM: number
+): TunnelAnalysis => {
+  const snapshot = (timeBeforePlate: number): TunnelSnapshot => {
+    const positionA = a.getPositionAtTime(a.flightTime - timeBeforePlate);
+    const positionB = b.getPositionAtTime(b.flightTime - timeBeforePlate);
+    return {
+      timeBeforePlate,
+      positionA,
+      positionB,
+      separation: Math.hypot(positionA.x - positionB.x, positionA.y - positionB.y),
+    };
+  };
+
+  // Both balls are in the air back to the shorter flight's release
+  const sharedTime = Math.min(a.flightTime, b.flightTime);
+
+  // Walk back from the plate until the pitches come within the threshold
+  let tunnelPoint: TunnelAnalysis["tunnelPoint"] = null;
+  for (let t = 0; t <= sharedTime; t += SAMPLE_INTERVAL) {
+    const s = snapshot(t);
+    if (s.separation <= thresholdM) {
+      const z = (s.positionA.z + s.positionB.z) / 2;
+      tunnelPoint = { ...s, distanceFromPlate: PLATE_BACK_POINT_Z - z };
+      break;
+    }
+  }
+
+  return {
+    tunnelPoint,
+    decisionPoint:
+      DECISION_TIME_BEFORE_PLATE <= sharedTime ? snapshot(DECISION_TIME_BEFORE_PLATE) : null,
+    plate: snapshot(0),
+  };
+};